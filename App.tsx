@@ -1,33 +1,244 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { VideoUploader } from './components/VideoUploader';
-import { SpeakerList } from './components/SpeakerList';
+import { SubtitleExportModal } from './components/SubtitleExportModal';
+import { TranscriptImport, TranscriptMode } from './components/TranscriptImport';
+import { RenderDialog } from './components/RenderDialog';
+import { synthesizeFitted, DEFAULT_FIT_SETTINGS, FitSettings } from './services/DurationFitter';
+import { DEFAULT_MIX_SETTINGS, MixSettings } from './services/BackgroundMixer';
+import { ImportedTranscript, attributeSpeakers } from './services/SubtitleImporter';
+import { readMediaDuration } from './utils/audioUtils';
+import { translateSegments, getLanguageLabel, TARGET_LANGUAGES } from './services/Translator';
+import { upsertTrackTexts, getTrack, getSegmentScript, takeKey, takeKeyOf, ORIGINAL_TRACK } from './utils/tracks';
+import { SpeakerList, MergeVoiceChoice } from './components/SpeakerList';
+import { addSpeaker, createSpeakerName, updateSpeaker, mergeSpeakers, reassignSegments } from './utils/speakerOps';
+import { resolveVoiceSettings } from './utils/voiceSettings';
 import { TimelineEditor, MOCK_DATA } from './components/TimelineEditor';
 import { analyzeVideo } from './services/VideoAnalyzer';
-import { VideoAnalysisResult, Segment, AnalysisStatus } from './types';
+import { AnalysisSettings, DEFAULT_ANALYSIS_SETTINGS, ANALYSIS_PROVIDER_LABELS, describeAnalysisSettings } from './services/AnalysisProvider';
+import { AnalysisSettingsPanel } from './components/AnalysisSettingsPanel';
+import { AnalysisWarningsPanel } from './components/AnalysisWarningsPanel';
+import { AnalysisWarning, mergeWarnings, validateAnalysis } from './services/AnalysisValidator';
+import { VoiceManager } from './services/VoiceManager';
+import { SourceAudioCache } from './services/SourceAudioCache';
+import { ProviderId, formatVoiceRef } from './services/VoiceProvider';
+import { HistoryDirection } from './services/EditHistory';
+import {
+  serializeProject,
+  downloadProject,
+  parseProject,
+  restoreProject,
+  migrateProject,
+  PROJECT_FILE_EXTENSION,
+} from './services/ProjectSerializer';
+import { SessionStore, StoredSession, fingerprintFile } from './services/SessionStore';
+import {
+  VideoAnalysisResult,
+  Segment,
+  AnalysisStatus,
+  GeneratedTake,
+  ProjectSource,
+  DubTrack,
+  Speaker,
+  VoiceSettings,
+  EditCommand,
+  TakeChange,
+} from './types';
 import { useVoiceSystem } from './hooks/useVoiceSystem';
-import { Mic, Loader2 } from 'lucide-react';
+import { useAutosave } from './hooks/useAutosave';
+import { useEditHistory } from './hooks/useEditHistory';
+import { usePlayback } from './hooks/usePlayback';
+import { useWaveform } from './hooks/useWaveform';
+import { useDubPreview } from './hooks/useDubPreview';
+import { DubPreviewControls } from './components/DubPreviewControls';
+import { HistoryPanel } from './components/HistoryPanel';
+import { VoiceReferenceDialog } from './components/VoiceReferenceDialog';
+import { VoiceReference } from './utils/voiceReference';
+import { VoiceLibraryDialog } from './components/VoiceLibraryDialog';
+import { LibraryVoice } from './services/VoiceLibrary';
+import { useVoiceLibrary } from './hooks/useVoiceLibrary';
+import { Mic, Loader2, FolderOpen, Download, Link, History, FileText, Languages, Disc3, AudioWaveform } from 'lucide-react';
+
+const voiceProviders = VoiceManager.listProviders();
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AnalysisStatus>(AnalysisStatus.IDLE);
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [analysisResult, setAnalysisResult] = useState<VideoAnalysisResult | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [takes, setTakes] = useState<Record<string, GeneratedTake>>({});
+  // Source video described by an imported project, until the user re-links the file
+  const [projectSource, setProjectSource] = useState<ProjectSource | null>(null);
+  const [bundleAudio, setBundleAudio] = useState(false);
+  const [sourceHash, setSourceHash] = useState<string | undefined>(undefined);
+  // Session found in IndexedDB at startup, offered for resume until the user decides
+  const [pendingSession, setPendingSession] = useState<StoredSession | null>(null);
+  const [isSubtitleExportOpen, setIsSubtitleExportOpen] = useState(false);
+  const [isRenderOpen, setIsRenderOpen] = useState(false);
+  const [fitSettings, setFitSettings] = useState<FitSettings>(DEFAULT_FIT_SETTINGS);
+  const [mixSettings, setMixSettings] = useState<MixSettings>(DEFAULT_MIX_SETTINGS);
+  // Optional transcript loaded alongside the video
+  const [transcript, setTranscript] = useState<ImportedTranscript | null>(null);
+  const [transcriptMode, setTranscriptMode] = useState<TranscriptMode>('skip');
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(DEFAULT_ANALYSIS_SETTINGS);
+  const [analysisProgress, setAnalysisProgress] = useState<string | null>(null);
+  // Problems the validator found in the latest analysis, kept until dismissed
+  const [analysisWarnings, setAnalysisWarnings] = useState<AnalysisWarning[]>([]);
+  const [targetLanguage, setTargetLanguage] = useState('es');
+  const [translationProgress, setTranslationProgress] = useState<string | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
+  // File name stem used for exported projects and subtitles
+  const sourceBaseName = (videoFile?.name || projectSource?.name)?.replace(/\.[^.]+$/, '') || undefined;
 
   // Hook into the Voice System
-  const { isReady, progress, synthesizeSegment } = useVoiceSystem(videoFile, analysisResult);
+  const {
+    isReady,
+    progress,
+    speakerStatus,
+    synthesizeSegment,
+    cloneFromReference,
+    assignVoice,
+    getReferenceClip,
+  } = useVoiceSystem(videoFile, analysisResult);
+  // Speaker whose voice reference is being chosen
+  const [referenceSpeakerId, setReferenceSpeakerId] = useState<string | null>(null);
+  const voiceLibrary = useVoiceLibrary();
+  // Speaker the voice library was opened for
+  const [librarySpeakerId, setLibrarySpeakerId] = useState<string | null>(null);
+
+  const speakerSegmentCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    analysisResult?.segments.forEach(s => (counts[s.speaker_id] = (counts[s.speaker_id] || 0) + 1));
+    return counts;
+  }, [analysisResult?.segments]);
+
+  // Voice map and take changes recorded with an edit (e.g. merging speakers)
+  const applyHistoryEffects = useCallback((command: EditCommand, direction: HistoryDirection) => {
+    command.voices?.forEach(change => {
+      const voice = direction === 'undo' ? change.before : change.after;
+      if (voice) {
+        VoiceManager.importVoiceMap({ [change.speaker_id]: voice });
+      } else {
+        VoiceManager.removeVoice(change.speaker_id);
+      }
+    });
+    const takeChanges = command.takes;
+    if (!takeChanges) return;
+    setTakes(prev => {
+      const next = { ...prev };
+      takeChanges.forEach(change => {
+        const take = direction === 'undo' ? change.before : change.after;
+        if (take) {
+          next[change.key] = take;
+        } else {
+          delete next[change.key];
+        }
+      });
+      return next;
+    });
+  }, []);
+
+  // Undo/redo for timeline edits
+  const editHistory = useEditHistory(analysisResult, setAnalysisResult, applyHistoryEffects);
+  const { commit: commitEdit, reset: resetHistory } = editHistory;
+
+  const playback = usePlayback();
+  const { waveform, isLoading: isWaveformLoading } = useWaveform(videoFile);
+  // One object URL per file; creating it during render would reload the video on every update
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!videoFile) {
+      setVideoUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+  // Free the decoded soundtrack of the previous video
+  useEffect(() => SourceAudioCache.retainOnly(videoFile), [videoFile]);
+
+  const { lastSavedAt, saveError } = useAutosave(
+    analysisResult
+      ? {
+          analysis: analysisResult,
+          videoFile,
+          source: projectSource,
+          sourceHash,
+          voiceMap: VoiceManager.exportVoiceMap(),
+          takes,
+          history: editHistory.history,
+        }
+      : null,
+    speakerStatus
+  );
+
+  useEffect(() => {
+    SessionStore.loadSession()
+      .then(session => setPendingSession(session))
+      .catch(error => console.error("Could not read saved session:", error));
+  }, []);
+
+  // Remember the source video so it is available again after a reload
+  const persistSourceMedia = (file: File) => {
+    setSourceHash(undefined);
+    SessionStore.saveSourceMedia(file)
+      .then(setSourceHash)
+      .catch(error => console.error("Could not persist source video:", error));
+  };
 
   const handleFileSelect = async (file: File) => {
+    VoiceManager.clear();
+    analysisAbortRef.current = new AbortController();
     setVideoFile(file);
     setStatus(AnalysisStatus.ANALYZING);
     setErrorMsg(null);
+    setAnalysisProgress(null);
+    setAnalysisWarnings([]);
     setAnalysisResult(null);
+    resetHistory();
+    setTakes({});
+    setProjectSource(null);
+    setPendingSession(null);
+    persistSourceMedia(file);
 
     try {
-      // Analyze video using the service
-      const result = await analyzeVideo(file);
+      let result: VideoAnalysisResult;
+      if (transcript && transcriptMode === 'skip') {
+        // Transcript already has everything we need; checked again against the real duration
+        const validated = validateAnalysis(transcript.analysis, { mediaDuration: await readMediaDuration(file) });
+        result = validated.result;
+        setAnalysisWarnings(mergeWarnings(transcript.warnings, validated.warnings));
+      } else {
+        // Analyze video using the service
+        const analysis = await analyzeVideo(
+          file,
+          {
+            transcript: transcript?.analysis.segments,
+            onProgress: setAnalysisProgress,
+            signal: analysisAbortRef.current?.signal,
+          },
+          analysisSettings
+        );
+        if (transcript) {
+          // When seeding, the transcript's segments stay as imported; only speakers come from the model
+          const seeded = attributeSpeakers(transcript.analysis, analysis.result);
+          const validated = validateAnalysis(seeded.result, { mediaDuration: await readMediaDuration(file) });
+          result = validated.result;
+          setAnalysisWarnings(mergeWarnings(transcript.warnings, seeded.warnings, validated.warnings));
+        } else {
+          result = analysis.result;
+          setAnalysisWarnings(analysis.warnings);
+        }
+      }
       setAnalysisResult(result);
       setStatus(AnalysisStatus.COMPLETED);
     } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        setStatus(AnalysisStatus.IDLE);
+        return;
+      }
       console.error("Analysis failed:", error);
       setStatus(AnalysisStatus.ERROR);
       setErrorMsg(error.message || "An unknown error occurred during video analysis.");
@@ -36,25 +247,326 @@ const App: React.FC = () => {
 
   // Handler for loading mock data for testing UI without API calls
   const loadMockData = () => {
+    VoiceManager.clear();
     setVideoFile(null); // Triggers Mock Mode in useVoiceSystem
     setAnalysisResult(MOCK_DATA);
+    resetHistory();
+    setAnalysisWarnings([]);
+    setTakes({});
+    setProjectSource(null);
+    setSourceHash(undefined);
+    setPendingSession(null);
+    SessionStore.clearSourceMedia().catch(() => {});
     setStatus(AnalysisStatus.COMPLETED);
   };
 
-  const handleSegmentUpdate = useCallback((updatedSegments: Segment[]) => {
-    setAnalysisResult((prev) => {
-      if (!prev) return null;
-      return {
-        ...prev,
-        segments: updatedSegments,
-      };
+  const handleExportProject = async () => {
+    if (!analysisResult) return;
+    try {
+      const project = await serializeProject(
+        {
+          analysis: analysisResult,
+          videoFile,
+          source: projectSource,
+          voiceMap: VoiceManager.exportVoiceMap(),
+          takes,
+        },
+        { bundleAudio }
+      );
+      downloadProject(project, sourceBaseName);
+    } catch (error: any) {
+      console.error("Project export failed:", error);
+      alert(error.message || "Failed to export project.");
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const restored = restoreProject(parseProject(await file.text()));
+      VoiceManager.clear();
+      VoiceManager.importVoiceMap(restored.voiceMap);
+      setVideoFile(null);
+      setSourceHash(undefined);
+      setPendingSession(null);
+      SessionStore.clearSourceMedia().catch(() => {});
+      setProjectSource(restored.source);
+      setTakes(restored.takes);
+      setAnalysisResult(restored.analysis);
+      resetHistory();
+      setAnalysisWarnings(restored.warnings);
+      setErrorMsg(null);
+      setStatus(AnalysisStatus.COMPLETED);
+    } catch (error: any) {
+      // Keep the current session intact if the file could not be loaded
+      console.error("Project import failed:", error);
+      alert(error.message || "Failed to import project.");
+    }
+  };
+
+  // Re-attach the original video after importing a project or resuming a session
+  const handleRelinkVideo = async (file: File) => {
+    if (projectSource) {
+      const matches = projectSource.hash
+        ? (await fingerprintFile(file)) === projectSource.hash
+        : file.name === projectSource.name && file.size === projectSource.size;
+      if (
+        !matches &&
+        !window.confirm(`This file does not match the project source (${projectSource.name}). Link it anyway?`)
+      ) {
+        return;
+      }
+    }
+    setVideoFile(file);
+    setProjectSource(null);
+    persistSourceMedia(file);
+  };
+
+  const handleResumeSession = async () => {
+    if (!pendingSession) return;
+    try {
+      // Sessions saved by an older build go through the same migrations as project files
+      const restored = restoreProject(migrateProject(pendingSession.project));
+      const media = await SessionStore.loadSourceMedia().catch(() => null);
+      const mediaMatches =
+        !!media && (!restored.source?.hash || media.hash === restored.source.hash);
+
+      VoiceManager.clear();
+      VoiceManager.importVoiceMap(restored.voiceMap);
+      if (media && mediaMatches) {
+        setVideoFile(media.file);
+        setSourceHash(media.hash);
+        setProjectSource(null);
+      } else {
+        setVideoFile(null);
+        setProjectSource(restored.source);
+      }
+      setTakes(restored.takes);
+      setAnalysisResult(restored.analysis);
+      resetHistory(restored.history);
+      setAnalysisWarnings(restored.warnings);
+      setErrorMsg(null);
+      setStatus(AnalysisStatus.COMPLETED);
+    } catch (error: any) {
+      console.error("Session restore failed:", error);
+      alert(error.message || "Failed to restore previous session.");
+    } finally {
+      setPendingSession(null);
+    }
+  };
+
+  const handleDiscardSession = () => {
+    setPendingSession(null);
+    SessionStore.clear().catch(error => console.error("Could not clear saved session:", error));
+  };
+
+  const handleSegmentUpdate = useCallback((updatedSegments: Segment[], tracks?: DubTrack[]) => {
+    commitEdit(prev => ({
+      ...prev,
+      segments: updatedSegments,
+      ...(tracks ? { tracks } : {}),
+    }));
+  }, [commitEdit]);
+
+  const handleAddSpeaker = useCallback(() => {
+    commitEdit(prev => addSpeaker(
+      prev,
+      { name: createSpeakerName(prev.speakers), voice_tone: '' },
+      Object.keys(VoiceManager.exportVoiceMap())
+    ).analysis, 'Add speaker');
+  }, [commitEdit]);
+
+  const handleMergeSpeakers = useCallback((sourceId: string, targetId: string, keepVoice: MergeVoiceChoice) => {
+    const sourceVoice = VoiceManager.getVoice(sourceId);
+    const keepSource = keepVoice === 'source' && !!sourceVoice;
+    const targetVoice = VoiceManager.getVoice(targetId);
+    // The target's takes were spoken with the voice being replaced; the source's still match
+    const takeChanges: TakeChange[] = keepSource
+      ? Object.entries(takes).flatMap(([key, take]): TakeChange[] => {
+          if (take.speaker_id === targetId) return [{ key, before: take, after: null }];
+          if (take.speaker_id === sourceId) return [{ key, before: take, after: { ...take, speaker_id: targetId } }];
+          return [];
+        })
+      : [];
+    commitEdit(prev => {
+      const merged = mergeSpeakers(prev, sourceId, targetId);
+      // The target must resolve to the kept voice's provider or it would be cloned again
+      return keepSource && VoiceManager.resolveProviderId(merged.speakers.find(s => s.id === targetId)?.voice_provider, merged.voice_provider) !== sourceVoice.provider
+        ? updateSpeaker(merged, targetId, { voice_provider: sourceVoice.provider })
+        : merged;
+    }, 'Merge speakers', keepSource ? {
+      voices: [{
+        speaker_id: targetId,
+        before: targetVoice ? formatVoiceRef(targetVoice) : null,
+        after: formatVoiceRef(sourceVoice),
+      }],
+      takes: takeChanges,
+    } : undefined);
+  }, [commitEdit, takes]);
+
+  // Existing takes of a speaker whose voice changed were spoken with the previous voice
+  const dropSpeakerTakes = useCallback((speakerId: string) => {
+    setTakes(prev => Object.fromEntries(
+      Object.entries(prev).filter(([, take]) => take.speaker_id !== speakerId)
+    ));
+  }, []);
+
+  const handleUpdateSpeaker = useCallback((speakerId: string, changes: Partial<Omit<Speaker, 'id'>>) => {
+    // Switching provider clones the speaker again
+    if ('voice_provider' in changes) dropSpeakerTakes(speakerId);
+    commitEdit(prev => updateSpeaker(prev, speakerId, changes), 'Edit speaker');
+  }, [commitEdit, dropSpeakerTakes]);
+
+  // Project-wide provider; a setting rather than an edit, so it stays out of the undo history
+  const handleProjectProviderChange = useCallback((providerId: ProviderId) => {
+    analysisResult?.speakers.filter(s => !s.voice_provider).forEach(s => dropSpeakerTakes(s.id));
+    setAnalysisResult(prev => prev && { ...prev, voice_provider: providerId });
+  }, [analysisResult?.speakers, dropSpeakerTakes]);
+
+  const handleCloneFromReference = useCallback(async (speakerId: string, reference: VoiceReference) => {
+    await cloneFromReference(speakerId, reference);
+    dropSpeakerTakes(speakerId);
+  }, [cloneFromReference, dropSpeakerTakes]);
+
+  const handleSaveVoice = useCallback(async (speakerId: string, name: string, tags: string[]) => {
+    const voice = VoiceManager.getVoice(speakerId);
+    if (!voice) throw new Error("This speaker has no voice yet.");
+    await voiceLibrary.saveVoice({
+      name,
+      provider: voice.provider,
+      voice_id: voice.voiceId,
+      tags,
+      reference: getReferenceClip(speakerId),
+    });
+  }, [voiceLibrary.saveVoice, getReferenceClip]);
+
+  const handleAssignLibraryVoice = useCallback((speakerId: string, voice: LibraryVoice) => {
+    assignVoice(speakerId, { provider: voice.provider, voiceId: voice.voice_id }, voice.reference);
+    dropSpeakerTakes(speakerId);
+    // Pin the speaker to the voice's provider so it is not cloned again with another one
+    const speaker = analysisResult?.speakers.find(s => s.id === speakerId);
+    if (speaker && VoiceManager.resolveProviderId(speaker.voice_provider, analysisResult?.voice_provider) !== voice.provider) {
+      commitEdit(prev => updateSpeaker(prev, speakerId, { voice_provider: voice.provider }), 'Edit speaker');
+    }
+  }, [assignVoice, dropSpeakerTakes, analysisResult, commitEdit]);
+
+  // Saved clones can expire on the provider; clone the stored reference again and keep the entry current
+  const handleRecloneLibraryVoice = useCallback(async (speakerId: string, voice: LibraryVoice) => {
+    if (!voice.reference) throw new Error("This voice has no reference clip to clone from.");
+    const voiceId = await VoiceManager.registerVoice(speakerId, voice.reference, voice.provider);
+    const updated = await voiceLibrary.updateVoice({ ...voice, voice_id: voiceId });
+    handleAssignLibraryVoice(speakerId, updated);
+  }, [voiceLibrary.updateVoice, handleAssignLibraryVoice]);
+
+  // A null speaker moves the segments to a newly created speaker
+  const handleReassignSegments = useCallback((segmentIds: string[], speakerId: string | null) => {
+    if (speakerId) {
+      commitEdit(prev => reassignSegments(prev, segmentIds, speakerId), 'Reassign segments');
+      return;
+    }
+    commitEdit(prev => {
+      const added = addSpeaker(
+        prev,
+        { name: createSpeakerName(prev.speakers), voice_tone: '' },
+        Object.keys(VoiceManager.exportVoiceMap())
+      );
+      return reassignSegments(added.analysis, segmentIds, added.speakerId);
+    }, 'New speaker');
+  }, [commitEdit]);
+
+  const handleTranslate = async () => {
+    if (!analysisResult || translationProgress) return;
+    setTranslationProgress('Translating...');
+    try {
+      const { texts, missing } = await translateSegments(
+        {
+          segments: analysisResult.segments,
+          speakers: analysisResult.speakers,
+          sourceLanguage: analysisResult.metadata.detected_language,
+          targetLanguage: getLanguageLabel(targetLanguage),
+        },
+        (done, total) => setTranslationProgress(`Translating ${done}/${total}...`)
+      );
+      setAnalysisResult(prev => prev && {
+        ...upsertTrackTexts(prev, targetLanguage, texts, true),
+        active_track: targetLanguage,
+      });
+      // Takes for this language were spoken from the previous translation
+      setTakes(prev => Object.fromEntries(
+        Object.entries(prev).filter(([, take]) => take.language !== targetLanguage)
+      ));
+      if (missing.length > 0) {
+        alert(`${missing.length} segment(s) could not be translated and will be dubbed from the original text.`);
+      }
+    } catch (error: any) {
+      console.error("Translation failed:", error);
+      alert(error.message || "Translation failed.");
+    } finally {
+      setTranslationProgress(null);
+    }
+  };
+
+  const handleTrackTextUpdate = useCallback((language: string, segmentId: string, text: string) => {
+    commitEdit(prev => upsertTrackTexts(prev, language, { [segmentId]: text }));
+  }, [commitEdit]);
+
+  const handleActiveTrackChange = useCallback((language: string) => {
+    setAnalysisResult(prev => prev && {
+      ...prev,
+      active_track: language === ORIGINAL_TRACK ? undefined : language,
     });
   }, []);
 
-  const handlePreviewAudio = async (speakerId: string, text: string): Promise<string> => {
-    return await synthesizeSegment(speakerId, text);
+  const handleTakesGenerated = useCallback((newTakes: GeneratedTake[]) => {
+    setTakes(prev => {
+      const next = { ...prev };
+      newTakes.forEach(take => (next[takeKeyOf(take)] = take));
+      return next;
+    });
+  }, []);
+
+  // `voiceSettings` are the segment's overrides as currently edited, which may not be saved yet
+  const handlePreviewAudio = async (
+    speakerId: string,
+    text: string,
+    segmentId: string,
+    voiceSettings?: VoiceSettings
+  ): Promise<string> => {
+    const language = analysisResult?.active_track;
+    const stored = analysisResult?.segments.find(s => s.id === segmentId);
+    if (!stored) return await synthesizeSegment(speakerId, text);
+
+    const segment = voiceSettings ? { ...stored, voice_settings: voiceSettings } : stored;
+    const settings = resolveVoiceSettings(analysisResult!.speakers, segment);
+    const fitted = await synthesizeFitted(segment, text, synthesizeSegment, fitSettings, settings);
+    setTakes(prev => ({
+      ...prev,
+      [takeKey(segmentId, language)]: {
+        segment_id: segmentId,
+        speaker_id: speakerId,
+        ...(language ? { language } : {}),
+        text,
+        created_at: new Date().toISOString(),
+        ...(Object.keys(settings).length > 0 ? { voice_settings: settings } : {}),
+        ...fitted,
+      },
+    }));
+    return fitted.audio_url;
   };
 
+  const dubPreview = useDubPreview({
+    videoRef: playback.videoRef,
+    clock: playback.clock,
+    isPlaying: playback.isPlaying,
+    analysis: analysisResult,
+    takes,
+    mixSettings,
+    canGenerate: isReady,
+    generateTake: (segment) => {
+      const script = analysisResult ? getSegmentScript(analysisResult, segment, analysisResult.active_track) : segment.text;
+      return handlePreviewAudio(segment.speaker_id, script, segment.id);
+    },
+  });
+
   return (
     <div className="min-h-screen bg-gray-900 text-white font-sans selection:bg-indigo-500 selection:text-white">
       {/* Header */}
@@ -65,9 +577,64 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold tracking-tight">DubStudio AI</h1>
           </div>
           <div className="flex items-center gap-4">
+             {lastSavedAt && (
+               <span className="text-xs text-gray-500" title="Session is autosaved in this browser">
+                 {saveError ? 'Last saved' : 'Saved'} {lastSavedAt.toLocaleTimeString()}
+               </span>
+             )}
+             {saveError && (
+               <span className="text-xs text-red-400 max-w-xs truncate" title={saveError}>
+                 Autosave failed: {saveError}
+               </span>
+             )}
              <button onClick={loadMockData} className="text-xs text-indigo-400 hover:text-indigo-300 underline">
                Load Demo Data
              </button>
+             <input
+               ref={projectInputRef}
+               type="file"
+               accept={`${PROJECT_FILE_EXTENSION},application/json`}
+               className="hidden"
+               onChange={(e) => {
+                 const file = e.target.files?.[0];
+                 if (file) handleImportProject(file);
+                 e.target.value = '';
+               }}
+             />
+             <button
+               onClick={() => projectInputRef.current?.click()}
+               className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 rounded-md transition-colors"
+             >
+               <FolderOpen size={14} />
+               Import Project
+             </button>
+             {analysisResult && (
+               <div className="flex items-center gap-2">
+                 <button
+                   onClick={handleExportProject}
+                   className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-white bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors"
+                 >
+                   <Download size={14} />
+                   Export Project
+                 </button>
+                 <button
+                   onClick={() => setIsSubtitleExportOpen(true)}
+                   className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 rounded-md transition-colors"
+                 >
+                   <FileText size={14} />
+                   Subtitles
+                 </button>
+                 <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer" title="Embed generated takes in the project file">
+                   <input
+                     type="checkbox"
+                     checked={bundleAudio}
+                     onChange={(e) => setBundleAudio(e.target.checked)}
+                     className="accent-indigo-500"
+                   />
+                   Include audio
+                 </label>
+               </div>
+             )}
              <div className="text-sm text-gray-400">
                 Powered by Gemini 3 Pro
              </div>
@@ -76,7 +643,32 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        
+
+        {/* Session Recovery Prompt */}
+        {pendingSession && !analysisResult && (
+          <div className="mb-6 p-4 bg-indigo-900/40 border border-indigo-700 rounded-lg flex items-center justify-between">
+             <div className="flex items-center gap-3 text-indigo-100">
+               <History size={18} className="text-indigo-300" />
+               <span className="text-sm">
+                 Resume previous session
+                 {pendingSession.project.source ? ` for ${pendingSession.project.source.name}` : ''}
+                 <span className="text-indigo-300/70"> (saved {new Date(pendingSession.updated_at).toLocaleString()})</span>
+               </span>
+             </div>
+             <div className="flex items-center gap-3">
+               <button onClick={handleDiscardSession} className="text-sm text-indigo-300 hover:text-white">
+                 Discard
+               </button>
+               <button
+                 onClick={handleResumeSession}
+                 className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md text-sm font-medium transition-colors"
+               >
+                 Resume
+               </button>
+             </div>
+          </div>
+        )}
+
         {/* Error Notification */}
         {status === AnalysisStatus.ERROR && (
           <div className="mb-6 p-4 bg-red-900/50 border border-red-700 rounded-lg flex items-center justify-between">
@@ -97,29 +689,74 @@ const App: React.FC = () => {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
              <div className="lg:col-span-2 space-y-6">
                 {status === AnalysisStatus.IDLE || status === AnalysisStatus.ERROR ? (
-                  <VideoUploader 
-                    onFileSelect={handleFileSelect} 
-                    isLoading={false} 
-                  />
+                  <>
+                    <VideoUploader 
+                      onFileSelect={handleFileSelect} 
+                      isLoading={false} 
+                    />
+                    <TranscriptImport
+                      transcript={transcript}
+                      mode={transcriptMode}
+                      onTranscriptChange={setTranscript}
+                      onModeChange={setTranscriptMode}
+                    />
+                    <AnalysisSettingsPanel
+                      settings={analysisSettings}
+                      onChange={setAnalysisSettings}
+                    />
+                  </>
                 ) : status === AnalysisStatus.ANALYZING ? (
                    <div className="w-full h-64 bg-gray-800 rounded-lg flex flex-col items-center justify-center border border-gray-700 animate-pulse">
                       <div className="w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mb-4"></div>
                       <p className="text-indigo-400 font-medium">Analyzing Video Content...</p>
-                      <p className="text-gray-500 text-sm mt-2">Extracting speakers and segments using Gemini 3 Pro</p>
+                      <p className="text-gray-500 text-sm mt-2">Extracting speakers and segments using {ANALYSIS_PROVIDER_LABELS[analysisSettings.provider]} ({describeAnalysisSettings(analysisSettings)})</p>
+                      {analysisProgress && <p className="text-gray-400 text-xs mt-1">{analysisProgress}</p>}
+                      <button
+                        onClick={() => analysisAbortRef.current?.abort()}
+                        className="mt-4 text-xs text-gray-400 hover:text-white underline"
+                      >
+                        Cancel
+                      </button>
                    </div>
                 ) : (
                    <div className="bg-black rounded-lg overflow-hidden shadow-xl aspect-video relative group border border-gray-800 flex items-center justify-center">
-                     {videoFile ? (
+                     {videoFile && videoUrl ? (
                        <video 
-                         src={URL.createObjectURL(videoFile)} 
+                         {...playback.videoProps}
+                         src={videoUrl} 
                          controls 
                          className="w-full h-full object-contain"
                        />
+                     ) : projectSource ? (
+                       <label className="flex flex-col items-center gap-2 text-sm text-gray-400 hover:text-white cursor-pointer">
+                         <Link size={24} />
+                         <span>Link source video: <span className="font-medium">{projectSource.name}</span></span>
+                         <input
+                           type="file"
+                           accept="video/*"
+                           className="hidden"
+                           onChange={(e) => {
+                             const file = e.target.files?.[0];
+                             if (file) handleRelinkVideo(file);
+                           }}
+                         />
+                       </label>
                      ) : (
                        <div className="text-gray-500 text-sm">Video Preview Unavailable (Mock Data Mode)</div>
                      )}
                    </div>
                 )}
+                {status === AnalysisStatus.COMPLETED && analysisResult && videoFile && (
+                  <DubPreviewControls
+                    audio={dubPreview.audio}
+                    onAudioChange={dubPreview.setAudio}
+                    autoGenerate={dubPreview.autoGenerate}
+                    onAutoGenerateChange={dubPreview.setAutoGenerate}
+                    isGenerating={!!dubPreview.generatingId}
+                    missingCount={dubPreview.missingCount}
+                    failedCount={dubPreview.failedCount}
+                  />
+                )}
              </div>
 
              <div className="space-y-6">
@@ -138,7 +775,30 @@ const App: React.FC = () => {
                            </div>
                         </div>
                      </div>
-                     <SpeakerList speakers={analysisResult.speakers} />
+                     <SpeakerList
+                       speakers={analysisResult.speakers}
+                       segmentCounts={speakerSegmentCounts}
+                       voiceStatus={speakerStatus}
+                       onUpdateSpeaker={handleUpdateSpeaker}
+                       onAddSpeaker={handleAddSpeaker}
+                       onMergeSpeakers={handleMergeSpeakers}
+                       onChooseReference={setReferenceSpeakerId}
+                       onOpenLibrary={setLibrarySpeakerId}
+                       providers={voiceProviders}
+                     />
+                     {analysisWarnings.length > 0 && (
+                       <AnalysisWarningsPanel
+                         warnings={analysisWarnings}
+                         onSeek={playback.seek}
+                         onDismiss={() => setAnalysisWarnings([])}
+                       />
+                     )}
+                     <HistoryPanel
+                       history={editHistory.history}
+                       onUndo={editHistory.undo}
+                       onRedo={editHistory.redo}
+                       onJumpTo={editHistory.jumpTo}
+                     />
                   </>
                 ) : (
                   <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 h-full flex items-center justify-center text-gray-500 italic text-sm">
@@ -162,17 +822,144 @@ const App: React.FC = () => {
                       <p className="text-xs text-gray-400">{progress}</p>
                     </div>
                   </div>
+
+                  <div className="flex items-center gap-2">
+                    <AudioWaveform size={16} className="text-gray-400" />
+                    <select
+                      value={VoiceManager.resolveProviderId(analysisResult.voice_provider)}
+                      onChange={(e) => handleProjectProviderChange(e.target.value as ProviderId)}
+                      title="Voice provider for speakers without their own"
+                      className="bg-gray-900 text-sm text-white border border-gray-600 rounded-md px-2 py-1.5 focus:border-indigo-500"
+                    >
+                      {voiceProviders.map(provider => (
+                        <option key={provider.id} value={provider.id} disabled={!provider.isConfigured()}>
+                          {provider.label}{provider.isConfigured() ? '' : ' (no API key)'}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Languages size={16} className="text-gray-400" />
+                    <select
+                      value={targetLanguage}
+                      onChange={(e) => setTargetLanguage(e.target.value)}
+                      disabled={!!translationProgress}
+                      className="bg-gray-900 text-sm text-white border border-gray-600 rounded-md px-2 py-1.5 focus:border-indigo-500"
+                    >
+                      {TARGET_LANGUAGES.map(lang => (
+                        <option key={lang.code} value={lang.code}>{lang.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleTranslate}
+                      disabled={!!translationProgress}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white rounded-md text-sm font-medium transition-colors"
+                    >
+                      {translationProgress && <Loader2 size={14} className="animate-spin" />}
+                      {translationProgress || (getTrack(analysisResult, targetLanguage) ? 'Re-translate' : 'Add Language')}
+                    </button>
+                    <label
+                      className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer ml-2"
+                      title="Speed up or time-stretch takes that are longer than their segment"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={fitSettings.enabled}
+                        onChange={(e) => setFitSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+                        className="accent-indigo-500"
+                      />
+                      Fit timing
+                    </label>
+                    <select
+                      value={fitSettings.tolerance}
+                      onChange={(e) => setFitSettings(prev => ({ ...prev, tolerance: Number(e.target.value) }))}
+                      disabled={!fitSettings.enabled}
+                      title="Allowed overrun before fitting kicks in"
+                      className="bg-gray-900 text-xs text-white border border-gray-600 rounded-md px-1.5 py-1.5 disabled:opacity-50"
+                    >
+                      {[0.05, 0.1, 0.2, 0.3].map(t => (
+                        <option key={t} value={t}>±{Math.round(t * 100)}%</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setIsRenderOpen(true)}
+                      disabled={!isReady}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-60 text-white rounded-md text-sm font-medium transition-colors"
+                    >
+                      <Disc3 size={14} />
+                      Render Dub
+                    </button>
+                  </div>
                </div>
 
                <TimelineEditor 
                  initialData={analysisResult}
                  onSegmentUpdate={handleSegmentUpdate}
                  onPreviewAudio={handlePreviewAudio}
+                 onTrackTextUpdate={handleTrackTextUpdate}
+                 onReassignSegments={handleReassignSegments}
+                 onActiveTrackChange={handleActiveTrackChange}
+                 takes={takes}
+                 clock={playback.clock}
+                 isPlaying={playback.isPlaying}
+                 onSeek={playback.seek}
+                 waveform={waveform}
+                 isWaveformLoading={isWaveformLoading}
                />
             </div>
           )}
         </div>
       </main>
+
+      {analysisResult && (
+        <SubtitleExportModal
+          isOpen={isSubtitleExportOpen}
+          analysis={analysisResult}
+          baseName={sourceBaseName}
+          onClose={() => setIsSubtitleExportOpen(false)}
+        />
+      )}
+
+      {analysisResult && (
+        <RenderDialog
+          isOpen={isRenderOpen}
+          analysis={analysisResult}
+          takes={takes}
+          videoFile={videoFile}
+          baseName={sourceBaseName}
+          synthesize={synthesizeSegment}
+          fitSettings={fitSettings}
+          mixSettings={mixSettings}
+          onMixSettingsChange={setMixSettings}
+          onTakesGenerated={handleTakesGenerated}
+          onClose={() => setIsRenderOpen(false)}
+        />
+      )}
+
+      {analysisResult && (
+        <VoiceReferenceDialog
+          speaker={analysisResult.speakers.find(s => s.id === referenceSpeakerId) || null}
+          segments={analysisResult.segments}
+          videoFile={videoFile}
+          onSubmit={handleCloneFromReference}
+          onClose={() => setReferenceSpeakerId(null)}
+        />
+      )}
+
+      {analysisResult && (
+        <VoiceLibraryDialog
+          speaker={analysisResult.speakers.find(s => s.id === librarySpeakerId) || null}
+          voices={voiceLibrary.voices}
+          isLoading={voiceLibrary.isLoading}
+          currentVoice={librarySpeakerId ? VoiceManager.getVoice(librarySpeakerId) : undefined}
+          onSave={handleSaveVoice}
+          onAssign={handleAssignLibraryVoice}
+          onReclone={handleRecloneLibraryVoice}
+          onRemove={voiceLibrary.removeVoice}
+          onClose={() => setLibrarySpeakerId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Cpu, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  AnalysisSettings,
+  AnalysisProviderId,
+  ANALYSIS_PROVIDER_LABELS,
+  GEMINI_MODELS,
+  describeAnalysisSettings,
+} from '../services/AnalysisProvider';
+
+interface AnalysisSettingsPanelProps {
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Collapsible choice of analysis backend, shown alongside the video uploader.
+ */
+export const AnalysisSettingsPanel: React.FC<AnalysisSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="w-full max-w-xl mx-auto mt-4 bg-gray-800 border border-gray-700 rounded-lg p-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-sm text-gray-300"
+      >
+        <span className="flex items-center gap-2">
+          <Cpu size={16} className="text-indigo-400" />
+          Analysis: {ANALYSIS_PROVIDER_LABELS[settings.provider]}
+          <span className="text-gray-500 truncate max-w-[240px]">({describeAnalysisSettings(settings)})</span>
+        </span>
+        {isOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3 text-xs text-gray-400">
+          <label className="flex items-center gap-2">
+            <span className="w-24">Backend</span>
+            <select
+              value={settings.provider}
+              onChange={(e) => onChange({ ...settings, provider: e.target.value as AnalysisProviderId })}
+              disabled={disabled}
+              className="flex-1 bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-white"
+            >
+              {(Object.keys(ANALYSIS_PROVIDER_LABELS) as AnalysisProviderId[]).map(id => (
+                <option key={id} value={id}>{ANALYSIS_PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+          </label>
+
+          {settings.provider === 'gemini' ? (
+            <>
+              <label className="flex items-center gap-2">
+                <span className="w-24">Model</span>
+                <input
+                  value={settings.model}
+                  onChange={(e) => onChange({ ...settings, model: e.target.value })}
+                  list="gemini-models"
+                  disabled={disabled}
+                  className="flex-1 bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-white"
+                />
+                <datalist id="gemini-models">
+                  {GEMINI_MODELS.map(model => <option key={model} value={model} />)}
+                </datalist>
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="w-24">Temperature</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={settings.temperature}
+                  onChange={(e) => onChange({ ...settings, temperature: parseFloat(e.target.value) })}
+                  disabled={disabled}
+                  className="flex-1 accent-indigo-500"
+                />
+                <span className="w-10 text-right tabular-nums text-white">{settings.temperature.toFixed(2)}</span>
+              </label>
+            </>
+          ) : (
+            <label className="flex items-center gap-2">
+              <span className="w-24">Server URL</span>
+              <input
+                type="url"
+                value={settings.endpoint}
+                onChange={(e) => onChange({ ...settings, endpoint: e.target.value })}
+                placeholder="http://localhost:8000/analyze"
+                disabled={disabled}
+                className="flex-1 bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-white"
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
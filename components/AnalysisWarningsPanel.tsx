@@ -0,0 +1,64 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { AnalysisWarning, AnalysisWarningAction } from '../services/AnalysisValidator';
+
+interface AnalysisWarningsPanelProps {
+  warnings: AnalysisWarning[];
+  onSeek: (time: number) => void;
+  onDismiss: () => void;
+}
+
+const ACTION_STYLES: Record<AnalysisWarningAction, { label: string; className: string }> = {
+  review: { label: 'Review', className: 'bg-amber-900/50 text-amber-300' },
+  repaired: { label: 'Fixed', className: 'bg-green-900/50 text-green-300' },
+  removed: { label: 'Removed', className: 'bg-red-900/50 text-red-300' },
+};
+
+/**
+ * Problems found in the analysis output and what was done about them.
+ * Entries with a time jump the playhead there.
+ */
+export const AnalysisWarningsPanel: React.FC<AnalysisWarningsPanelProps> = ({ warnings, onSeek, onDismiss }) => {
+  const toReview = warnings.filter(w => w.action === 'review').length;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg shadow-md border border-amber-800/60">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <AlertTriangle size={14} className="text-amber-400" />
+          Analysis warnings
+          <span className="normal-case font-normal text-gray-500">
+            {warnings.length}{toReview > 0 && `, ${toReview} to review`}
+          </span>
+        </h3>
+        <button
+          onClick={onDismiss}
+          title="Dismiss"
+          className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <ul className="max-h-48 overflow-y-auto custom-scrollbar text-xs space-y-1">
+        {warnings.map((warning, i) => (
+          <li key={i} className="flex items-start gap-2 px-2 py-1 rounded hover:bg-gray-700/50">
+            <span className={`flex-shrink-0 px-1.5 py-0.5 rounded text-[10px] ${ACTION_STYLES[warning.action].className}`}>
+              {ACTION_STYLES[warning.action].label}
+            </span>
+            <span className="flex-1 text-gray-300">{warning.message}</span>
+            {warning.time !== undefined && (
+              <button
+                onClick={() => onSeek(warning.time!)}
+                title="Go to this point"
+                className="flex-shrink-0 text-indigo-400 hover:text-indigo-300 tabular-nums"
+              >
+                {warning.time.toFixed(1)}s
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
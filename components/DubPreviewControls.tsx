@@ -0,0 +1,75 @@
+import React from 'react';
+import { Headphones, Loader2, AlertTriangle } from 'lucide-react';
+import { PreviewAudio } from '../hooks/useDubPreview';
+
+interface DubPreviewControlsProps {
+  audio: PreviewAudio;
+  onAudioChange: (audio: PreviewAudio) => void;
+  autoGenerate: boolean;
+  onAutoGenerateChange: (enabled: boolean) => void;
+  isGenerating: boolean;
+  missingCount: number;
+  failedCount: number;
+}
+
+export const DubPreviewControls: React.FC<DubPreviewControlsProps> = ({
+  audio,
+  onAudioChange,
+  autoGenerate,
+  onAutoGenerateChange,
+  isGenerating,
+  missingCount,
+  failedCount,
+}) => {
+  return (
+    <div className="flex items-center justify-between bg-gray-800 px-3 py-2 rounded-lg border border-gray-700">
+      <div className="flex items-center gap-3">
+        <Headphones size={16} className="text-gray-400" />
+        <div className="flex items-center bg-gray-900 rounded-md p-0.5 border border-gray-700">
+          {(['original', 'dub'] as PreviewAudio[]).map(option => (
+            <button
+              key={option}
+              onClick={() => onAudioChange(option)}
+              className={`px-3 py-1 text-xs rounded transition-colors ${
+                audio === option ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {option === 'original' ? 'Original audio' : 'Dub preview'}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer" title="Synthesize missing takes just ahead of the playhead">
+          <input
+            type="checkbox"
+            checked={autoGenerate}
+            onChange={(e) => onAutoGenerateChange(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          Generate missing takes
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3 text-xs">
+        {isGenerating && (
+          <span className="flex items-center gap-1 text-indigo-300">
+            <Loader2 size={12} className="animate-spin" />
+            Generating...
+          </span>
+        )}
+        {failedCount > 0 && (
+          <span className="flex items-center gap-1 text-red-300">
+            <AlertTriangle size={12} />
+            {failedCount} failed
+          </span>
+        )}
+        {missingCount > 0 ? (
+          <span className="text-amber-300" title="Segments without an up-to-date take are silent in the preview">
+            {missingCount} take(s) missing
+          </span>
+        ) : (
+          <span className="text-green-400">All takes ready</span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,29 +1,68 @@
-import React, { useState, useEffect } from 'react';
-import { X, Save, Volume2, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Save, Volume2, Loader2, Scissors, Merge, Trash2, SlidersHorizontal, ChevronDown } from 'lucide-react';
+import { VoiceSettings } from '../types';
+import { VoiceSettingsFields } from './VoiceSettingsFields';
+import { describeVoiceSettings } from '../utils/voiceSettings';
+import { ProviderCapabilities } from '../services/VoiceProvider';
 
 interface EditModalProps {
   isOpen: boolean;
   initialText: string;
+  // Source-language text, shown for reference when editing a translation
+  originalText?: string;
+  languageLabel?: string;
+  // The segment's own voice settings and the speaker defaults they override
+  voiceSettings?: VoiceSettings;
+  speakerVoiceSettings?: VoiceSettings;
+  // Of the provider that voices the segment's speaker; limits the settings offered
+  capabilities?: ProviderCapabilities;
   onClose: () => void;
-  onSave: (newText: string) => void;
-  onPreview: (text: string) => Promise<string>;
+  onSave: (newText: string, voiceSettings?: VoiceSettings) => void;
+  onPreview: (text: string, voiceSettings?: VoiceSettings) => Promise<string>;
+  // Splits the segment at the text cursor
+  onSplit?: (text: string, offset: number) => void;
+  // Omitted when there is no following segment of the same speaker
+  onMergeNext?: () => void;
+  onDelete?: () => void;
 }
 
-export const EditModal: React.FC<EditModalProps> = ({ isOpen, initialText, onClose, onSave, onPreview }) => {
+export const EditModal: React.FC<EditModalProps> = ({
+  isOpen,
+  initialText,
+  originalText,
+  languageLabel,
+  voiceSettings,
+  speakerVoiceSettings,
+  capabilities,
+  onClose,
+  onSave,
+  onPreview,
+  onSplit,
+  onMergeNext,
+  onDelete,
+}) => {
   const [text, setText] = useState(initialText);
+  const [settings, setSettings] = useState<VoiceSettings>(voiceSettings ?? {});
+  const [showSettings, setShowSettings] = useState(false);
   const [isPreviewing, setIsPreviewing] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
     setText(initialText);
   }, [initialText]);
 
+  useEffect(() => {
+    setSettings(voiceSettings ?? {});
+    setShowSettings(Object.keys(voiceSettings ?? {}).length > 0);
+  }, [voiceSettings, isOpen]);
+
   if (!isOpen) return null;
 
   const handlePreviewClick = async () => {
     if (isPreviewing) return;
     setIsPreviewing(true);
     try {
-      const audioUrl = await onPreview(text);
+      const audioUrl = await onPreview(text, settings);
       if (audioUrl && audioUrl !== "mock_audio_url") {
         const audio = new Audio(audioUrl);
         await audio.play();
@@ -55,13 +94,81 @@ export const EditModal: React.FC<EditModalProps> = ({ isOpen, initialText, onClo
         </div>
         
         <div className="p-4">
-          <label className="block text-xs text-gray-400 mb-2 uppercase tracking-wide">Spoken Text</label>
+          {originalText !== undefined && (
+            <div className="mb-4">
+              <label className="block text-xs text-gray-400 mb-2 uppercase tracking-wide">Original</label>
+              <p className="text-sm text-gray-400 bg-gray-900/50 p-3 rounded border border-gray-700 leading-relaxed italic">
+                {originalText}
+              </p>
+            </div>
+          )}
+          <label className="block text-xs text-gray-400 mb-2 uppercase tracking-wide">
+            {languageLabel ? `Dubbing Script (${languageLabel})` : 'Spoken Text'}
+          </label>
           <textarea
+            ref={textareaRef}
             className="w-full h-32 bg-gray-900 text-white p-3 rounded border border-gray-600 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 resize-none text-sm leading-relaxed"
             value={text}
             onChange={(e) => setText(e.target.value)}
             autoFocus
           />
+          <div className="mt-3 border border-gray-700 rounded">
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-xs text-gray-300 hover:text-white"
+            >
+              <SlidersHorizontal size={12} />
+              Voice settings
+              {describeVoiceSettings(settings).map(label => (
+                <span key={label} className="px-1.5 rounded bg-indigo-900/50 text-indigo-300">{label}</span>
+              ))}
+              <ChevronDown size={12} className={`ml-auto transition-transform ${showSettings ? 'rotate-180' : ''}`} />
+            </button>
+            {showSettings && (
+              <div className="px-3 pb-3">
+                <VoiceSettingsFields
+                  value={settings}
+                  onChange={setSettings}
+                  inherited={speakerVoiceSettings}
+                  inheritedLabel="Speaker default"
+                  capabilities={capabilities}
+                />
+              </div>
+            )}
+          </div>
+          {(onSplit || onMergeNext || onDelete) && (
+            <div className="flex items-center gap-2 mt-2">
+              {onSplit && (
+                <button
+                  onClick={() => onSplit(text, textareaRef.current?.selectionStart ?? text.length)}
+                  title="Split the segment at the text cursor"
+                  className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-300 hover:text-white bg-gray-700/60 hover:bg-gray-700 rounded transition-colors"
+                >
+                  <Scissors size={12} />
+                  Split at cursor
+                </button>
+              )}
+              {onMergeNext && (
+                <button
+                  onClick={onMergeNext}
+                  title="Merge with the speaker's next segment"
+                  className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-300 hover:text-white bg-gray-700/60 hover:bg-gray-700 rounded transition-colors"
+                >
+                  <Merge size={12} />
+                  Merge with next
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={onDelete}
+                  className="ml-auto flex items-center gap-1.5 px-2 py-1 text-xs text-red-300 hover:text-red-100 bg-red-900/30 hover:bg-red-900/50 rounded transition-colors"
+                >
+                  <Trash2 size={12} />
+                  Delete
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="flex items-center justify-between p-4 bg-gray-850 rounded-b-lg border-t border-gray-700">
@@ -82,7 +189,7 @@ export const EditModal: React.FC<EditModalProps> = ({ isOpen, initialText, onClo
                Cancel
              </button>
              <button 
-               onClick={() => onSave(text)}
+               onClick={() => onSave(text, Object.keys(settings).length > 0 ? settings : undefined)}
                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md text-sm font-medium transition-colors shadow-lg shadow-indigo-500/20"
              >
                <Save size={16} />
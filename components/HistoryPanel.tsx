@@ -0,0 +1,81 @@
+import React from 'react';
+import { Undo2, Redo2, History } from 'lucide-react';
+import { EditHistory } from '../types';
+
+interface HistoryPanelProps {
+  history: EditHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Restore the state after the first `pastLength` edits
+  onJumpTo: (pastLength: number) => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo, onJumpTo }) => {
+  const { past, future } = history;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg shadow-md border border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <History size={14} />
+          History
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={past.length === 0}
+            title="Undo (Ctrl+Z)"
+            className="p-1.5 rounded text-gray-300 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            <Undo2 size={14} />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-1.5 rounded text-gray-300 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            <Redo2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <ol className="max-h-48 overflow-y-auto custom-scrollbar text-xs space-y-0.5">
+        {/* Redoable edits first (newest at the top), then applied edits */}
+        {[...future].reverse().map((command, i) => (
+          <li key={command.id}>
+            <button
+              onClick={() => onJumpTo(past.length + future.length - i)}
+              className="w-full text-left px-2 py-1 rounded text-gray-500 italic hover:bg-gray-700/50"
+            >
+              {command.label}
+            </button>
+          </li>
+        ))}
+        {[...past].reverse().map((command, i) => (
+          <li key={command.id}>
+            <button
+              onClick={() => onJumpTo(past.length - i)}
+              className={`w-full flex justify-between px-2 py-1 rounded hover:bg-gray-700/50 ${
+                i === 0 ? 'bg-indigo-900/40 text-white' : 'text-gray-300'
+              }`}
+            >
+              <span>{command.label}</span>
+              <span className="text-gray-500">{new Date(command.created_at).toLocaleTimeString()}</span>
+            </button>
+          </li>
+        ))}
+        <li>
+          <button
+            onClick={() => onJumpTo(0)}
+            className={`w-full text-left px-2 py-1 rounded hover:bg-gray-700/50 ${
+              past.length === 0 ? 'bg-indigo-900/40 text-white' : 'text-gray-500'
+            }`}
+          >
+            Initial state
+          </button>
+        </li>
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,265 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Disc3, Download, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { GeneratedTake, VideoAnalysisResult } from '../types';
+import { renderDubTrack, RenderProgress, RenderResult } from '../services/DubRenderer';
+import { getLanguageLabel } from '../services/Translator';
+import { FitSettings, SynthesizeFn } from '../services/DurationFitter';
+import { takeKey } from '../utils/tracks';
+import { VideoExportPanel } from './VideoExportPanel';
+import { MixSettings, MixMode, getStemSeparator } from '../services/BackgroundMixer';
+
+interface RenderDialogProps {
+  isOpen: boolean;
+  analysis: VideoAnalysisResult;
+  takes: Record<string, GeneratedTake>;
+  // Source video, when linked; enables exporting the dubbed video
+  videoFile: File | null;
+  baseName?: string;
+  synthesize: SynthesizeFn;
+  fitSettings: FitSettings;
+  mixSettings: MixSettings;
+  onMixSettingsChange: (settings: MixSettings) => void;
+  onTakesGenerated: (takes: GeneratedTake[]) => void;
+  onClose: () => void;
+}
+
+const MIX_MODES: { value: MixMode; label: string }[] = [
+  { value: 'replace', label: 'Dub only' },
+  { value: 'duck', label: 'Duck original' },
+  { value: 'stem', label: 'Background stem' },
+];
+
+const PHASE_LABELS: Record<RenderProgress['phase'], string> = {
+  preparing: 'Preparing background audio',
+  synthesizing: 'Synthesizing segments',
+  mixing: 'Mixing speakers',
+  encoding: 'Encoding WAV',
+  done: 'Done',
+};
+
+export const RenderDialog: React.FC<RenderDialogProps> = ({
+  isOpen,
+  analysis,
+  takes,
+  videoFile,
+  baseName,
+  synthesize,
+  fitSettings,
+  mixSettings,
+  onMixSettingsChange,
+  onTakesGenerated,
+  onClose,
+}) => {
+  const [progress, setProgress] = useState<RenderProgress | null>(null);
+  const [result, setResult] = useState<RenderResult | null>(null);
+  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+    };
+  }, [downloadUrl]);
+
+  if (!isOpen) return null;
+
+  const isRendering = !!progress && progress.phase !== 'done';
+  const language = analysis.active_track;
+  const speakerName = (id: string) => analysis.speakers.find(s => s.id === id)?.name || id;
+  const overflowing = result
+    ? analysis.segments.filter(s => (takes[takeKey(s.id, language)]?.overflow ?? 0) > 0).length
+    : 0;
+
+  const handleRender = async () => {
+    abortRef.current = new AbortController();
+    setResult(null);
+    setDownloadUrl(null);
+    try {
+      const rendered = await renderDubTrack(
+        {
+          analysis,
+          language,
+          takes,
+          synthesize,
+          fit: fitSettings,
+          background: videoFile ? { videoFile, settings: mixSettings } : undefined,
+        },
+        { onProgress: setProgress, signal: abortRef.current.signal }
+      );
+      if (rendered.newTakes.length > 0) onTakesGenerated(rendered.newTakes);
+      setResult(rendered);
+      setDownloadUrl(URL.createObjectURL(rendered.wav));
+    } catch (error: any) {
+      setProgress(null);
+      if (error?.name === 'AbortError') return;
+      console.error("Render failed", error);
+      alert(error?.message || "Failed to render the dub.");
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    setProgress(null);
+    onClose();
+  };
+
+  const updateMix = <K extends keyof MixSettings>(key: K, value: MixSettings[K]) => {
+    onMixSettingsChange({ ...mixSettings, [key]: value });
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-md border border-gray-700">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Disc3 size={18} className="text-indigo-400" />
+            Render Dub Track
+          </h3>
+          <button onClick={handleClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-400">
+            Synthesizes every segment{language ? ` of the ${getLanguageLabel(language)} track` : ''}, reusing
+            existing takes, and mixes them into a single WAV aligned to the video.
+          </p>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-2 uppercase tracking-wide">Background</label>
+            <div className="grid grid-cols-3 gap-2">
+              {MIX_MODES.map(mode => (
+                <button
+                  key={mode.value}
+                  onClick={() => updateMix('mode', mode.value)}
+                  disabled={isRendering || (!videoFile && mode.value !== 'replace')}
+                  title={mode.value === 'stem' ? `Vocal removal: ${getStemSeparator().name}` : undefined}
+                  className={`px-2 py-1.5 rounded-md text-xs font-medium border transition-colors disabled:opacity-40 ${
+                    mixSettings.mode === mode.value
+                      ? 'bg-indigo-600 border-indigo-500 text-white'
+                      : 'bg-gray-900 border-gray-600 text-gray-300 hover:border-gray-500'
+                  }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            {!videoFile && (
+              <p className="text-xs text-gray-500 mt-1">Link the source video to keep its background audio.</p>
+            )}
+          </div>
+
+          {videoFile && mixSettings.mode === 'duck' && (
+            <div className="grid grid-cols-3 gap-3 text-xs text-gray-400">
+              <label>
+                Duck level ({mixSettings.duckLevelDb} dB)
+                <input
+                  type="range"
+                  min={-40}
+                  max={-3}
+                  value={mixSettings.duckLevelDb}
+                  onChange={(e) => updateMix('duckLevelDb', Number(e.target.value))}
+                  className="w-full accent-indigo-500"
+                />
+              </label>
+              <label>
+                Attack ({Math.round(mixSettings.attack * 1000)} ms)
+                <input
+                  type="range"
+                  min={0}
+                  max={500}
+                  step={10}
+                  value={mixSettings.attack * 1000}
+                  onChange={(e) => updateMix('attack', Number(e.target.value) / 1000)}
+                  className="w-full accent-indigo-500"
+                />
+              </label>
+              <label>
+                Release ({Math.round(mixSettings.release * 1000)} ms)
+                <input
+                  type="range"
+                  min={50}
+                  max={2000}
+                  step={10}
+                  value={mixSettings.release * 1000}
+                  onChange={(e) => updateMix('release', Number(e.target.value) / 1000)}
+                  className="w-full accent-indigo-500"
+                />
+              </label>
+            </div>
+          )}
+
+          {progress && (
+            <div>
+              <div className="flex justify-between text-xs text-gray-400 mb-1">
+                <span>{PHASE_LABELS[progress.phase]}</span>
+                <span>{progress.done}/{progress.total}</span>
+              </div>
+              <div className="h-2 bg-gray-900 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+              </div>
+            </div>
+          )}
+
+          {result && (
+            result.failures.length === 0 ? (
+              <p className="flex items-center gap-2 text-sm text-green-400">
+                <CheckCircle2 size={16} />
+                All segments rendered ({result.duration.toFixed(1)}s).
+              </p>
+            ) : (
+              <div className="p-3 bg-red-900/30 border border-red-800 rounded-md max-h-40 overflow-y-auto">
+                <p className="flex items-center gap-1.5 text-xs font-semibold text-red-300 mb-1">
+                  <AlertTriangle size={12} />
+                  {result.failures.length} segment(s) failed and were left silent
+                </p>
+                <ul className="text-xs text-red-200 space-y-0.5">
+                  {result.failures.map(failure => (
+                    <li key={failure.segment_id}>
+                      {failure.start_time.toFixed(1)}s · {speakerName(failure.speaker_id)}: {failure.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )
+          )}
+
+          {overflowing > 0 && (
+            <p className="flex items-center gap-2 text-xs text-amber-300">
+              <AlertTriangle size={12} />
+              {overflowing} take(s) still run past their segment and overlap what follows.
+            </p>
+          )}
+
+          {result && videoFile && (
+            <VideoExportPanel videoFile={videoFile} dubTrack={result.buffer} baseName={baseName} />
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-gray-700">
+          {downloadUrl && (
+            <a
+              href={downloadUrl}
+              download={`${baseName || 'dubstudio'}_${language || 'original'}_dub.wav`}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm font-medium transition-colors"
+            >
+              <Download size={16} />
+              Download WAV
+            </a>
+          )}
+          <button
+            onClick={handleRender}
+            disabled={isRendering}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white rounded-md text-sm font-medium transition-colors shadow-lg shadow-indigo-500/20"
+          >
+            {isRendering ? <Loader2 size={16} className="animate-spin" /> : <Disc3 size={16} />}
+            {result ? 'Render Again' : 'Start Render'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
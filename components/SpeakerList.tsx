@@ -1,24 +1,299 @@
-import React from 'react';
-import { Speaker } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Merge, UserPlus, Check, X, AudioLines, Library, SlidersHorizontal } from 'lucide-react';
+import { Speaker, VoiceSettings } from '../types';
+import { VoiceSettingsFields } from './VoiceSettingsFields';
+import { describeVoiceSettings, normalizeVoiceSettings } from '../utils/voiceSettings';
+import { VoiceProvider } from '../services/VoiceProvider';
+
+export type VoiceStatus = 'PENDING' | 'CLONED' | 'FAILED';
+// Which speaker's voice clone the merged speaker keeps
+export type MergeVoiceChoice = 'source' | 'target';
 
 interface SpeakerListProps {
   speakers: Speaker[];
+  segmentCounts?: Record<string, number>;
+  voiceStatus?: Record<string, VoiceStatus>;
+  // Editing is enabled when these are provided
+  onUpdateSpeaker?: (speakerId: string, changes: Partial<Omit<Speaker, 'id'>>) => void;
+  onAddSpeaker?: () => void;
+  onMergeSpeakers?: (sourceId: string, targetId: string, keepVoice: MergeVoiceChoice) => void;
+  // Opens the voice reference picker for a speaker
+  onChooseReference?: (speakerId: string) => void;
+  // Opens the voice library to save or assign a voice
+  onOpenLibrary?: (speakerId: string) => void;
+  // Offered as per-speaker overrides of the project's voice provider
+  providers?: VoiceProvider[];
+}
+
+const VOICE_STATUS_STYLES: Record<VoiceStatus, string> = {
+  PENDING: 'text-indigo-300',
+  CLONED: 'text-green-400',
+  FAILED: 'text-red-400',
+};
+
+interface InlineTextProps {
+  value: string;
+  placeholder: string;
+  className: string;
+  onCommit?: (value: string) => void;
 }
 
-export const SpeakerList: React.FC<SpeakerListProps> = ({ speakers }) => {
+/**
+ * Text that turns into an input on click. Enter or blur saves, Escape cancels.
+ */
+const InlineText: React.FC<InlineTextProps> = ({ value, placeholder, className, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  useEffect(() => setDraft(null), [value]);
+
+  if (!onCommit) return <p className={className}>{value || placeholder}</p>;
+
+  if (draft === null) {
+    return (
+      <p className={`${className} cursor-text hover:underline decoration-dotted`} onClick={() => setDraft(value)} title="Click to edit">
+        {value || placeholder}
+      </p>
+    );
+  }
+
+  const save = () => {
+    if (draft.trim() !== value) onCommit(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <input
+      autoFocus
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') save();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      className={`${className} w-full bg-gray-900 border border-indigo-500 rounded px-1 outline-none`}
+    />
+  );
+};
+
+export const SpeakerList: React.FC<SpeakerListProps> = ({
+  speakers,
+  segmentCounts,
+  voiceStatus,
+  onUpdateSpeaker,
+  onAddSpeaker,
+  onMergeSpeakers,
+  onChooseReference,
+  onOpenLibrary,
+  providers = [],
+}) => {
+  const [merge, setMerge] = useState<{ sourceId: string; targetId: string; keepVoice: MergeVoiceChoice } | null>(null);
+  // Voice settings being edited; applied as one change so slider drags don't flood the history
+  const [settingsDraft, setSettingsDraft] = useState<{ speakerId: string; settings: VoiceSettings; provider: string } | null>(null);
+
+  const nameOf = (id: string) => speakers.find(s => s.id === id)?.name || id;
+
+  const startMerge = (sourceId: string) => {
+    const target = speakers.find(s => s.id !== sourceId);
+    if (target) setMerge({ sourceId, targetId: target.id, keepVoice: 'target' });
+  };
+
+  const applySettings = () => {
+    if (!settingsDraft || !onUpdateSpeaker) return;
+    const speaker = speakers.find(s => s.id === settingsDraft.speakerId);
+    const provider = settingsDraft.provider || undefined;
+    onUpdateSpeaker(settingsDraft.speakerId, {
+      voice_settings: normalizeVoiceSettings(settingsDraft.settings),
+      // Only sent when changed: a new provider means cloning the voice again
+      ...(provider !== speaker?.voice_provider ? { voice_provider: provider } : {}),
+    });
+    setSettingsDraft(null);
+  };
+
+  const confirmMerge = () => {
+    if (!merge || !onMergeSpeakers) return;
+    onMergeSpeakers(merge.sourceId, merge.targetId, merge.keepVoice);
+    setMerge(null);
+  };
+
   return (
     <div className="bg-gray-800 p-4 rounded-lg shadow-md h-full overflow-y-auto">
-      <h3 className="text-lg font-semibold text-white mb-4 border-b border-gray-700 pb-2">Identified Speakers</h3>
+      <div className="flex items-center justify-between mb-4 border-b border-gray-700 pb-2">
+        <h3 className="text-lg font-semibold text-white">Identified Speakers</h3>
+        {onAddSpeaker && (
+          <button
+            onClick={onAddSpeaker}
+            title="Add speaker"
+            className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+          >
+            <UserPlus size={16} />
+          </button>
+        )}
+      </div>
       <div className="space-y-4">
         {speakers.map((speaker) => (
-          <div key={speaker.id} className="flex items-start space-x-3 p-3 bg-gray-700 rounded-md">
-            <div className="flex-shrink-0 w-10 h-10 rounded-full bg-indigo-600 flex items-center justify-center text-white font-bold text-sm">
-              {speaker.id.split('_')[1] || 'S'}
-            </div>
-            <div>
-              <p className="text-sm font-medium text-white">{speaker.name}</p>
-              <p className="text-xs text-gray-400 mt-1 italic">{speaker.voice_tone}</p>
+          <div key={speaker.id} className="p-3 bg-gray-700 rounded-md">
+            <div className="flex items-start space-x-3">
+              <div className="flex-shrink-0 w-10 h-10 rounded-full bg-indigo-600 flex items-center justify-center text-white font-bold text-sm">
+                {speaker.id.split('_')[1] || 'S'}
+              </div>
+              <div className="flex-1 min-w-0">
+                <InlineText
+                  value={speaker.name}
+                  placeholder="Unnamed speaker"
+                  className="text-sm font-medium text-white"
+                  onCommit={onUpdateSpeaker && (name => onUpdateSpeaker(speaker.id, { name }))}
+                />
+                <InlineText
+                  value={speaker.voice_tone}
+                  placeholder="Describe the voice tone"
+                  className="text-xs text-gray-400 mt-1 italic"
+                  onCommit={onUpdateSpeaker && (voice_tone => onUpdateSpeaker(speaker.id, { voice_tone }))}
+                />
+                <div className="flex items-center gap-2 mt-1 text-[10px] text-gray-500">
+                  {segmentCounts && <span>{segmentCounts[speaker.id] || 0} segment(s)</span>}
+                  {voiceStatus?.[speaker.id] && (
+                    <span className={VOICE_STATUS_STYLES[voiceStatus[speaker.id]]}>
+                      voice {voiceStatus[speaker.id].toLowerCase()}
+                    </span>
+                  )}
+                  {speaker.voice_provider && (
+                    <span className="px-1 rounded bg-gray-600 text-gray-300">
+                      {providers.find(p => p.id === speaker.voice_provider)?.label ?? speaker.voice_provider}
+                    </span>
+                  )}
+                  {describeVoiceSettings(speaker.voice_settings).map(label => (
+                    <span key={label} className="px-1 rounded bg-indigo-900/50 text-indigo-300">{label}</span>
+                  ))}
+                </div>
+              </div>
+              {onUpdateSpeaker && (
+                <button
+                  onClick={() => setSettingsDraft(
+                    settingsDraft?.speakerId === speaker.id
+                      ? null
+                      : { speakerId: speaker.id, settings: speaker.voice_settings ?? {}, provider: speaker.voice_provider ?? '' }
+                  )}
+                  title="Voice provider and default settings"
+                  className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 transition-colors"
+                >
+                  <SlidersHorizontal size={14} />
+                </button>
+              )}
+              {onChooseReference && (
+                <button
+                  onClick={() => onChooseReference(speaker.id)}
+                  title="Choose the voice cloning reference"
+                  className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 transition-colors"
+                >
+                  <AudioLines size={14} />
+                </button>
+              )}
+              {onOpenLibrary && (
+                <button
+                  onClick={() => onOpenLibrary(speaker.id)}
+                  title="Voice library"
+                  className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 transition-colors"
+                >
+                  <Library size={14} />
+                </button>
+              )}
+              {onMergeSpeakers && speakers.length > 1 && merge?.sourceId !== speaker.id && (
+                <button
+                  onClick={() => startMerge(speaker.id)}
+                  title="Merge into another speaker"
+                  className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 transition-colors"
+                >
+                  <Merge size={14} />
+                </button>
+              )}
             </div>
+
+            {settingsDraft?.speakerId === speaker.id && (
+              <div className="mt-3 pt-3 border-t border-gray-600 space-y-2">
+                {providers.length > 0 && (
+                  <label className="flex items-center gap-2 text-xs text-gray-400">
+                    <span className="w-14">Provider</span>
+                    <select
+                      value={settingsDraft.provider}
+                      onChange={(e) => setSettingsDraft({ ...settingsDraft, provider: e.target.value })}
+                      className="flex-1 bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-white"
+                    >
+                      <option value="">Project default</option>
+                      {providers.map(provider => (
+                        <option key={provider.id} value={provider.id} disabled={!provider.isConfigured()}>
+                          {provider.label}{provider.isConfigured() ? '' : ' (no API key)'}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="w-4" />
+                  </label>
+                )}
+                <VoiceSettingsFields
+                  value={settingsDraft.settings}
+                  onChange={(settings) => setSettingsDraft({ ...settingsDraft, settings })}
+                  capabilities={providers.find(p => p.id === settingsDraft.provider)?.capabilities}
+                />
+                <div className="flex justify-end gap-2 text-xs">
+                  <button onClick={() => setSettingsDraft(null)} className="flex items-center gap-1 px-2 py-1 text-gray-400 hover:text-white">
+                    <X size={12} />
+                    Cancel
+                  </button>
+                  <button
+                    onClick={applySettings}
+                    className="flex items-center gap-1 px-2 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded"
+                  >
+                    <Check size={12} />
+                    Apply
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {merge?.sourceId === speaker.id && (
+              <div className="mt-3 pt-3 border-t border-gray-600 space-y-2 text-xs text-gray-300">
+                <label className="flex items-center gap-2">
+                  Merge into
+                  <select
+                    value={merge.targetId}
+                    onChange={(e) => setMerge({ ...merge, targetId: e.target.value })}
+                    className="flex-1 bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-white"
+                  >
+                    {speakers.filter(s => s.id !== speaker.id).map(s => (
+                      <option key={s.id} value={s.id}>{s.name || s.id}</option>
+                    ))}
+                  </select>
+                </label>
+                <div className="flex items-center gap-3">
+                  <span>Keep voice of</span>
+                  {(['target', 'source'] as MergeVoiceChoice[]).map(choice => (
+                    <label key={choice} className="flex items-center gap-1 cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={merge.keepVoice === choice}
+                        onChange={() => setMerge({ ...merge, keepVoice: choice })}
+                        className="accent-indigo-500"
+                      />
+                      {nameOf(choice === 'source' ? merge.sourceId : merge.targetId)}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setMerge(null)} className="flex items-center gap-1 px-2 py-1 text-gray-400 hover:text-white">
+                    <X size={12} />
+                    Cancel
+                  </button>
+                  <button
+                    onClick={confirmMerge}
+                    className="flex items-center gap-1 px-2 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded"
+                  >
+                    <Check size={12} />
+                    Merge
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         ))}
         {speakers.length === 0 && (
@@ -27,4 +302,4 @@ export const SpeakerList: React.FC<SpeakerListProps> = ({ speakers }) => {
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { X, FileText, Download } from 'lucide-react';
+import { VideoAnalysisResult } from '../types';
+import {
+  exportSubtitles,
+  downloadSubtitles,
+  DEFAULT_SUBTITLE_OPTIONS,
+  SubtitleExportOptions,
+  SubtitleFormat,
+} from '../services/SubtitleExporter';
+import { getLanguageLabel } from '../services/Translator';
+
+interface SubtitleExportModalProps {
+  isOpen: boolean;
+  analysis: VideoAnalysisResult;
+  baseName?: string;
+  onClose: () => void;
+}
+
+const FORMATS: { value: SubtitleFormat; label: string; hint: string }[] = [
+  { value: 'srt', label: 'SRT', hint: 'Widest player support' },
+  { value: 'vtt', label: 'WebVTT', hint: 'Web players, with speaker voice tags' },
+  { value: 'ass', label: 'ASS', hint: 'Styled, one color per speaker' },
+];
+
+export const SubtitleExportModal: React.FC<SubtitleExportModalProps> = ({ isOpen, analysis, baseName, onClose }) => {
+  const [format, setFormat] = useState<SubtitleFormat>('srt');
+  const [options, setOptions] = useState<SubtitleExportOptions>(DEFAULT_SUBTITLE_OPTIONS);
+
+  if (!isOpen) return null;
+
+  const updateOption = <K extends keyof SubtitleExportOptions>(key: K, value: SubtitleExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleDownload = () => {
+    try {
+      downloadSubtitles(exportSubtitles(analysis, format, options), format, baseName);
+      onClose();
+    } catch (error) {
+      console.error("Subtitle export failed", error);
+      alert("Failed to export subtitles.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-md border border-gray-700">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <FileText size={18} className="text-indigo-400" />
+            Export Subtitles
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className="block text-xs text-gray-400 mb-2 uppercase tracking-wide">Format</label>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map(f => (
+                <button
+                  key={f.value}
+                  onClick={() => setFormat(f.value)}
+                  title={f.hint}
+                  className={`px-3 py-2 rounded-md text-sm font-medium border transition-colors ${
+                    format === f.value
+                      ? 'bg-indigo-600 border-indigo-500 text-white'
+                      : 'bg-gray-900 border-gray-600 text-gray-300 hover:border-gray-500'
+                  }`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs text-gray-400 mb-2 uppercase tracking-wide">Max line length</label>
+              <input
+                type="number"
+                min={10}
+                max={120}
+                value={options.maxLineLength}
+                onChange={(e) => updateOption('maxLineLength', Number(e.target.value) || DEFAULT_SUBTITLE_OPTIONS.maxLineLength)}
+                className="w-full bg-gray-900 text-white p-2 rounded border border-gray-600 focus:border-indigo-500 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-2 uppercase tracking-wide">Lines per cue</label>
+              <input
+                type="number"
+                min={1}
+                max={4}
+                value={options.maxLinesPerCue}
+                onChange={(e) => updateOption('maxLinesPerCue', Number(e.target.value) || DEFAULT_SUBTITLE_OPTIONS.maxLinesPerCue)}
+                className="w-full bg-gray-900 text-white p-2 rounded border border-gray-600 focus:border-indigo-500 text-sm"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.splitLongCues}
+              onChange={(e) => updateOption('splitLongCues', e.target.checked)}
+              className="accent-indigo-500"
+            />
+            Split long segments into multiple cues
+          </label>
+
+          {analysis.tracks && analysis.tracks.length > 0 && (
+            <div>
+              <label className="block text-xs text-gray-400 mb-2 uppercase tracking-wide">Language</label>
+              <select
+                value={options.language || ''}
+                onChange={(e) => updateOption('language', e.target.value || undefined)}
+                className="w-full bg-gray-900 text-white p-2 rounded border border-gray-600 focus:border-indigo-500 text-sm"
+              >
+                <option value="">Original ({analysis.metadata.detected_language})</option>
+                {analysis.tracks.map(track => (
+                  <option key={track.language} value={track.language}>{getLanguageLabel(track.language)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {format === 'srt' && (
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.includeSpeakerNames}
+                onChange={(e) => updateOption('includeSpeakerNames', e.target.checked)}
+                className="accent-indigo-500"
+              />
+              Prefix lines with speaker names
+            </label>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-gray-700">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-300 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleDownload}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md text-sm font-medium transition-colors shadow-lg shadow-indigo-500/20"
+          >
+            <Download size={16} />
+            Download .{format}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,36 +1,83 @@
-import React, { useState, useEffect, memo } from 'react';
-import { VideoAnalysisResult, Segment } from '../types';
-import { User, Play, Edit2 } from 'lucide-react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, memo } from 'react';
+import { VideoAnalysisResult, Segment, GeneratedTake, DubTrack, VoiceSettings } from '../types';
+import { User, Play, Edit2, Volume2, AlertTriangle, Scissors, ZoomIn, ZoomOut, Maximize2, AudioWaveform, Loader2 } from 'lucide-react';
 import { EditModal } from './EditModal';
+import { getLanguageLabel } from '../services/Translator';
+import { VoiceManager } from '../services/VoiceManager';
+import { SPEAKER_COLORS, FALLBACK_SPEAKER_COLOR, getSpeakerColorIndex } from '../utils/speakerColors';
+import { ORIGINAL_TRACK, resolveTrack, getSegmentScript, takeKey, upsertTrackTexts } from '../utils/tracks';
+import { describeVoiceSettings, sameVoiceSettings } from '../utils/voiceSettings';
+import { useSegmentDrag, SegmentDragMode } from '../hooks/useSegmentDrag';
+import { WaveformLane } from './WaveformLane';
+import { WaveformData } from '../services/WaveformExtractor';
+import {
+  DEFAULT_PIXELS_PER_SECOND,
+  clampZoom,
+  getTickStep,
+  getTicks,
+  formatRulerTime,
+} from '../utils/timelineScale';
+import { SegmentEdit, splitSegment, mergeWithNext, getNextInLane, addSegment, deleteSegment } from '../utils/segmentOps';
+import { PlaybackClock, usePlaybackTime } from '../hooks/usePlayback';
 
 interface TimelineEditorProps {
   initialData: VideoAnalysisResult;
-  onSegmentUpdate: (updatedSegments: Segment[]) => void;
-  onPreviewAudio: (speakerId: string, text: string) => Promise<string>;
+  // Structural edits (split/merge/add/delete) also pass the tracks with their texts remapped
+  onSegmentUpdate: (updatedSegments: Segment[], tracks?: DubTrack[]) => void;
+  // voiceSettings: the segment's overrides as edited, before they are saved
+  onPreviewAudio: (speakerId: string, text: string, segmentId: string, voiceSettings?: VoiceSettings) => Promise<string>;
+  onTrackTextUpdate: (language: string, segmentId: string, text: string) => void;
+  onActiveTrackChange: (language: string) => void;
+  // Moves the selected segments to a speaker; null creates a new speaker for them
+  onReassignSegments?: (segmentIds: string[], speakerId: string | null) => void;
+  takes: Record<string, GeneratedTake>;
+  // Shared transport with the video preview, see hooks/usePlayback
+  clock: PlaybackClock;
+  isPlaying: boolean;
+  onSeek: (time: number) => void;
+  // Source soundtrack envelope; null while decoding or without a video
+  waveform?: WaveformData | null;
+  isWaveformLoading?: boolean;
 }
 
 interface TimelineSegmentProps {
   segment: Segment;
+  // Text on the active track (translation or original)
+  script: string;
+  take?: GeneratedTake;
   pixelsPerSecond: number;
   colorClass: string;
-  onClick: (id: string) => void;
+  // Under the playhead
+  isActive: boolean;
+  isSelected: boolean;
+  isDragging: boolean;
+  onPointerDown: (e: React.PointerEvent, id: string, mode: SegmentDragMode) => void;
 }
 
-const PIXELS_PER_SECOND = 100;
-const SPEAKER_COLORS = [
-  'bg-blue-600 border-blue-400 text-blue-50',
-  'bg-emerald-600 border-emerald-400 text-emerald-50',
-  'bg-purple-600 border-purple-400 text-purple-50',
-  'bg-orange-600 border-orange-400 text-orange-50',
-  'bg-pink-600 border-pink-400 text-pink-50',
-];
+const LANE_HEIGHT = 96; // h-24, shared by the sidebar rows and the lanes
+const WAVEFORM_HEIGHT = 48; // h-12
+const ZOOM_STEP = 1.5;
+// Two clicks on the same segment within this window open the editor
+const DOUBLE_CLICK_MS = 400;
+// Value of the reassign menu entry that creates a speaker
+const NEW_SPEAKER_OPTION = '__new__';
 
 /**
  * Individual Segment Component
  * Encapsulates logic for a single block to avoid "Hooks inside loops" issues.
  * memo() prevents re-rendering every segment when only one changes.
  */
-const TimelineSegment = memo(({ segment, pixelsPerSecond, colorClass, onClick }: TimelineSegmentProps) => {
+const TimelineSegment = memo(({
+  segment,
+  script,
+  take,
+  pixelsPerSecond,
+  colorClass,
+  isActive,
+  isSelected,
+  isDragging,
+  onPointerDown,
+}: TimelineSegmentProps) => {
   // Math Guards: Ensure safe numbers for CSS
   const safeStart = Number.isFinite(segment.start_time) ? Math.max(0, segment.start_time) : 0;
   const safeEnd = Number.isFinite(segment.end_time) ? Math.max(safeStart, segment.end_time) : safeStart + 1;
@@ -41,31 +88,94 @@ const TimelineSegment = memo(({ segment, pixelsPerSecond, colorClass, onClick }:
 
   return (
     <div
-      onClick={() => onClick(segment.id)}
-      className={`absolute top-2 bottom-2 rounded-md border shadow-sm cursor-pointer hover:brightness-110 hover:shadow-md hover:z-10 transition-all overflow-hidden flex flex-col p-2 select-none ${colorClass}`}
+      onPointerDown={(e) => onPointerDown(e, segment.id, 'move')}
+      className={`absolute top-2 bottom-2 rounded-md border shadow-sm hover:brightness-110 hover:shadow-md hover:z-10 overflow-hidden flex flex-col p-2 select-none touch-none ${
+        isDragging ? 'cursor-grabbing z-20 ring-2 ring-white/60 shadow-lg' : 'cursor-grab transition-all'
+      } ${isActive ? 'brightness-125 shadow-md' : ''} ${isSelected ? 'outline outline-2 outline-offset-1 outline-indigo-300' : ''} ${colorClass}`}
       style={{
         left: `${leftPos}px`,
         width: `${widthVal}px`
       }}
-      title="Click to edit"
+      title={script !== segment.text ? `Original: ${segment.text}` : 'Click to seek, double-click to edit, drag to retime'}
     >
+      {/* Edge handles for changing start_time / end_time */}
+      <div
+        onPointerDown={(e) => onPointerDown(e, segment.id, 'start')}
+        className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/30"
+      />
+      <div
+        onPointerDown={(e) => onPointerDown(e, segment.id, 'end')}
+        className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/30"
+      />
       <div className="flex items-center gap-1 text-[10px] opacity-75 mb-0.5">
         <Play size={8} fill="currentColor" />
         <span>{safeStart.toFixed(1)}s</span>
+        {take && (take.overflow ?? 0) > 0 ? (
+          <span
+            className="ml-auto flex items-center gap-0.5 px-1 rounded bg-amber-400 text-amber-950 font-semibold"
+            title={`Take runs ${take.overflow!.toFixed(1)}s past the segment end`}
+          >
+            <AlertTriangle size={9} />
+            +{take.overflow!.toFixed(1)}s
+          </span>
+        ) : take ? (
+          <Volume2 size={10} className="ml-auto" aria-label="Take generated" />
+        ) : null}
       </div>
       <div className="text-xs font-medium leading-tight line-clamp-2 overflow-hidden break-words">
-        {segment.text}
+        {script}
       </div>
+      {segment.voice_settings && (
+        <div className="mt-auto flex gap-0.5 overflow-hidden" title="Voice settings for this segment">
+          {describeVoiceSettings(segment.voice_settings).map(label => (
+            <span key={label} className="px-1 rounded bg-black/30 text-[9px] leading-4 whitespace-nowrap">{label}</span>
+          ))}
+        </div>
+      )}
     </div>
   );
 });
 
 TimelineSegment.displayName = 'TimelineSegment';
 
+/**
+ * The playhead and the time readout follow the clock on their own, so the
+ * rest of the timeline does not re-render every frame during playback.
+ */
+const Playhead: React.FC<{ clock: PlaybackClock; pixelsPerSecond: number }> = ({ clock, pixelsPerSecond }) => {
+  const currentTime = usePlaybackTime(clock);
+  return (
+    <div
+      className="absolute top-0 bottom-0 w-px bg-red-500 z-30 pointer-events-none"
+      style={{ left: `${currentTime * pixelsPerSecond}px` }}
+    >
+      <div className="sticky top-0 -ml-1.5 w-3 h-3 bg-red-500 rotate-45 -translate-y-1.5" />
+    </div>
+  );
+};
+
+const PlaybackTime: React.FC<{ clock: PlaybackClock }> = ({ clock }) => {
+  const tenths = usePlaybackTime(clock, time => Math.floor(time * 10));
+  return <>{(tenths / 10).toFixed(1)}s</>;
+};
+
 /**
  * Main Editor Component
  */
-export const TimelineEditor: React.FC<TimelineEditorProps> = ({ initialData, onSegmentUpdate, onPreviewAudio }) => {
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({
+  initialData,
+  onSegmentUpdate,
+  onPreviewAudio,
+  onTrackTextUpdate,
+  onActiveTrackChange,
+  onReassignSegments,
+  takes,
+  clock,
+  isPlaying,
+  onSeek,
+  waveform,
+  isWaveformLoading,
+}) => {
   // 1. Data Integrity Boundary
   if (!initialData || !initialData.metadata || !Array.isArray(initialData.speakers)) {
     console.error('TimelineEditor: Invalid initialData received', initialData);
@@ -78,6 +188,15 @@ export const TimelineEditor: React.FC<TimelineEditorProps> = ({ initialData, onS
 
   const [segments, setSegments] = useState<Segment[]>(initialData.segments || []);
   const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const lastClickRef = useRef<{ id: string; at: number } | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(DEFAULT_PIXELS_PER_SECOND);
+  const [viewport, setViewport] = useState({ left: 0, width: 0 });
+  // Scroll position to restore after a zoom so the anchor time stays under the pointer
+  const zoomAnchorRef = useRef<{ time: number; offset: number } | null>(null);
+  // Latest requested zoom, ahead of state while a zoom is waiting to render
+  const pixelsPerSecondRef = useRef(pixelsPerSecond);
   
   // 2. Effect Loop Guard
   // Check if lengths differ or IDs differ to avoid infinite updates if object ref changes but data is same
@@ -92,35 +211,333 @@ export const TimelineEditor: React.FC<TimelineEditorProps> = ({ initialData, onS
     }
   }, [initialData.segments]);
 
-  const handleSaveSegment = (newText: string) => {
+  const lanesRef = useRef<HTMLDivElement>(null);
+
+  const activeTrack = resolveTrack(initialData.active_track);
+  const trackLanguages = (initialData.tracks || []).map(t => t.language);
+
+  const handleSaveSegment = (newText: string, voiceSettings?: VoiceSettings) => {
     if (!editingSegmentId) return;
+    const current = segments.find(seg => seg.id === editingSegmentId);
+    const settingsChanged = !!current && !sameVoiceSettings(current.voice_settings, voiceSettings);
+
+    // On a dubbing track the editable script is that track's translation
+    if (activeTrack !== ORIGINAL_TRACK && !settingsChanged) {
+      onTrackTextUpdate(activeTrack, editingSegmentId, newText);
+      setEditingSegmentId(null);
+      return;
+    }
     
-    const updatedSegments = segments.map(seg => 
-      seg.id === editingSegmentId ? { ...seg, text: newText } : seg
-    );
+    const updatedSegments = segments.map(seg => {
+      if (seg.id !== editingSegmentId) return seg;
+      const updated: Segment = activeTrack === ORIGINAL_TRACK ? { ...seg, text: newText } : { ...seg };
+      if (voiceSettings) {
+        updated.voice_settings = voiceSettings;
+      } else {
+        delete updated.voice_settings;
+      }
+      return updated;
+    });
     
     setSegments(updatedSegments);
-    onSegmentUpdate(updatedSegments);
+    if (activeTrack !== ORIGINAL_TRACK) {
+      // Settings and translation change together, as one undo step
+      const updated = upsertTrackTexts({ ...initialData, segments: updatedSegments }, activeTrack, { [editingSegmentId]: newText });
+      onSegmentUpdate(updated.segments, updated.tracks);
+    } else {
+      onSegmentUpdate(updatedSegments);
+    }
+    setEditingSegmentId(null);
+  };
+
+  // Structural edits work on the latest segments, including any unsaved drag preview
+  const currentAnalysis = (): VideoAnalysisResult => ({ ...initialData, segments });
+
+  const applyEdit = (edit: SegmentEdit) => {
+    setSegments(edit.segments);
+    onSegmentUpdate(edit.segments, edit.tracks);
+  };
+
+  const handleSplitSegment = (text: string, offset: number) => {
+    if (!editingSegmentId) return;
+    const edit = splitSegment(currentAnalysis(), editingSegmentId, {
+      text,
+      offset,
+      language: activeTrack === ORIGINAL_TRACK ? undefined : activeTrack,
+    });
+    if (!edit) {
+      alert("Both halves of a split need at least 0.2s; move the cursor further from the edge.");
+      return;
+    }
+    applyEdit(edit);
+    setEditingSegmentId(null);
+  };
+
+  // Segments under the playhead; re-renders only when that set changes
+  const activeKey = usePlaybackTime(clock, time =>
+    segments.filter(s => s.start_time <= time && time < s.end_time).map(s => s.id).join('\n')
+  );
+  const activeIds = activeKey ? activeKey.split('\n') : [];
+
+  // Splits the selected segment, or the only segment under the playhead
+  const splitTarget = (() => {
+    const underPlayhead = segments.filter(s => activeIds.includes(s.id));
+    return underPlayhead.find(s => selectedIds.includes(s.id)) ?? (underPlayhead.length === 1 ? underPlayhead[0] : undefined);
+  })();
+
+  // Drop selections of segments that were deleted or merged away
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const next = prev.filter(id => segments.some(s => s.id === id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [segments]);
+
+  const handleReassign = (value: string) => {
+    if (!onReassignSegments || selectedIds.length === 0) return;
+    onReassignSegments(selectedIds, value === NEW_SPEAKER_OPTION ? null : value);
+  };
+
+  const handleSplitAtPlayhead = () => {
+    if (!splitTarget) return;
+    const edit = splitSegment(currentAnalysis(), splitTarget.id, { time: clock.get() });
+    if (!edit) {
+      alert("Both halves of a split need at least 0.2s; move the playhead further from the edge.");
+      return;
+    }
+    applyEdit(edit);
+  };
+
+  const handleMergeNext = () => {
+    if (!editingSegmentId) return;
+    const edit = mergeWithNext(currentAnalysis(), editingSegmentId);
+    if (edit) applyEdit(edit);
     setEditingSegmentId(null);
   };
 
+  const handleDeleteSegment = () => {
+    if (!editingSegmentId) return;
+    applyEdit(deleteSegment(currentAnalysis(), editingSegmentId));
+    setEditingSegmentId(null);
+  };
+
+  const handleCreateSegment = (speakerId: string, start: number, end: number) => {
+    const created = addSegment(currentAnalysis(), speakerId, start, end);
+    if (!created) return;
+    applyEdit(created.edit);
+    setEditingSegmentId(created.segmentId);
+  };
+
+  // Click seeks to the segment; double-click opens the editor; Ctrl/Cmd/Shift-click toggles selection
+  const handleSegmentClick = (segmentId: string, toggle: boolean) => {
+    if (toggle) {
+      lastClickRef.current = null;
+      setSelectedIds(prev => (prev.includes(segmentId) ? prev.filter(id => id !== segmentId) : [...prev, segmentId]));
+      return;
+    }
+    const now = Date.now();
+    const last = lastClickRef.current;
+    if (last && last.id === segmentId && now - last.at < DOUBLE_CLICK_MS) {
+      lastClickRef.current = null;
+      setEditingSegmentId(segmentId);
+      return;
+    }
+    lastClickRef.current = { id: segmentId, at: now };
+    setSelectedIds([segmentId]);
+    const segment = segments.find(s => s.id === segmentId);
+    if (segment) onSeek(segment.start_time);
+  };
+
+  // Click or drag on the ruler to seek
+  const handleRulerPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onSeek(getTimeAt(e.clientX));
+  };
+
+  const handleRulerPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) onSeek(getTimeAt(e.clientX));
+  };
+
+  // Keep the playhead in view while playing
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || !isPlaying) return;
+    const follow = () => {
+      const x = clock.get() * pixelsPerSecond;
+      if (x < container.scrollLeft || x > container.scrollLeft + container.clientWidth * 0.9) {
+        container.scrollLeft = Math.max(0, x - container.clientWidth * 0.1);
+      }
+    };
+    follow();
+    return clock.subscribe(follow);
+  }, [clock, isPlaying, pixelsPerSecond]);
+
+  // Track the visible region for windowed rendering
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    let frame = 0;
+    const measure = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setViewport({ left: container.scrollLeft, width: container.clientWidth }));
+    };
+    measure();
+    container.addEventListener('scroll', measure, { passive: true });
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => {
+      cancelAnimationFrame(frame);
+      container.removeEventListener('scroll', measure);
+      observer.disconnect();
+    };
+  }, []);
+
+  const zoomTo = useCallback((next: number, anchorClientX?: number) => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+    const offset = anchorClientX !== undefined ? anchorClientX - rect.left : container.clientWidth / 2;
+    const current = pixelsPerSecondRef.current;
+    const clamped = clampZoom(next);
+    if (clamped === current) return;
+    // Until a pending zoom is laid out, scrollLeft still belongs to the zoom before it
+    const pending = zoomAnchorRef.current;
+    const scrollLeft = pending ? pending.time * current - pending.offset : container.scrollLeft;
+    zoomAnchorRef.current = { time: (scrollLeft + offset) / current, offset };
+    pixelsPerSecondRef.current = clamped;
+    setPixelsPerSecond(clamped);
+  }, []);
+
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    const anchor = zoomAnchorRef.current;
+    if (!container || !anchor) return;
+    container.scrollLeft = Math.max(0, anchor.time * pixelsPerSecond - anchor.offset);
+    zoomAnchorRef.current = null;
+  }, [pixelsPerSecond]);
+
+  // Ctrl+wheel and trackpad pinch (reported as Ctrl+wheel) zoom around the pointer
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomTo(pixelsPerSecondRef.current * Math.exp(-e.deltaY * 0.01), e.clientX);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [zoomTo]);
+
+  // Two-finger touch pinch zooms around the midpoint of the fingers
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const touches = new Map<number, number>();
+    let pinch: { distance: number; zoom: number } | null = null;
+    const spread = () => {
+      const [a, b] = [...touches.values()];
+      return { distance: Math.abs(a - b), midpoint: (a + b) / 2 };
+    };
+    const handleDown = (e: PointerEvent) => {
+      if (e.pointerType !== 'touch') return;
+      touches.set(e.pointerId, e.clientX);
+      if (touches.size === 2) pinch = { distance: Math.max(1, spread().distance), zoom: pixelsPerSecondRef.current };
+    };
+    const handleMove = (e: PointerEvent) => {
+      if (!touches.has(e.pointerId)) return;
+      touches.set(e.pointerId, e.clientX);
+      if (!pinch || touches.size !== 2) return;
+      const { distance, midpoint } = spread();
+      zoomTo(pinch.zoom * Math.max(1, distance) / pinch.distance, midpoint);
+    };
+    const handleUp = (e: PointerEvent) => {
+      touches.delete(e.pointerId);
+      if (touches.size < 2) pinch = null;
+    };
+    container.addEventListener('pointerdown', handleDown);
+    container.addEventListener('pointermove', handleMove);
+    container.addEventListener('pointerup', handleUp);
+    container.addEventListener('pointercancel', handleUp);
+    return () => {
+      container.removeEventListener('pointerdown', handleDown);
+      container.removeEventListener('pointermove', handleMove);
+      container.removeEventListener('pointerup', handleUp);
+      container.removeEventListener('pointercancel', handleUp);
+    };
+  }, [zoomTo]);
+
   const getSpeakerColor = (speakerId: string) => {
-    if (!initialData.speakers) return 'bg-gray-600 border-gray-400 text-gray-50';
-    const index = initialData.speakers.findIndex(s => s.id === speakerId);
-    return SPEAKER_COLORS[index % SPEAKER_COLORS.length] || 'bg-gray-600 border-gray-400 text-gray-50';
+    if (!initialData.speakers) return FALLBACK_SPEAKER_COLOR;
+    const index = getSpeakerColorIndex(initialData.speakers, speakerId);
+    return SPEAKER_COLORS[index] || FALLBACK_SPEAKER_COLOR;
   };
 
   const duration = typeof initialData.metadata.total_duration === 'number' 
     ? initialData.metadata.total_duration 
     : 0;
   
-  const totalWidth = Math.max(100, (duration * PIXELS_PER_SECOND) || 100);
+  const totalWidth = Math.max(100, (duration * pixelsPerSecond) || 100);
+
+  const handleZoomToFit = () => {
+    const container = scrollRef.current;
+    if (!container || duration <= 0) return;
+    const fit = clampZoom((container.clientWidth - 16) / duration);
+    if (fit === pixelsPerSecondRef.current) {
+      container.scrollLeft = 0;
+      return;
+    }
+    zoomAnchorRef.current = { time: 0, offset: 0 };
+    pixelsPerSecondRef.current = fit;
+    setPixelsPerSecond(fit);
+  };
+
+  // Visible window plus a page of overscan on either side, snapped to page
+  // boundaries so scrolling only re-renders when a new page comes into range
+  const pageSeconds = Math.max(1, (viewport.width || 1000) / pixelsPerSecond);
+  const viewStart = Math.max(0, (Math.floor(viewport.left / pixelsPerSecond / pageSeconds) - 1) * pageSeconds);
+  const viewEnd = viewStart + pageSeconds * 4;
+  const tickStep = getTickStep(pixelsPerSecond);
+  const ticks = getTicks(viewStart, Math.min(viewEnd, Math.ceil(duration)), tickStep);
+  const isVisible = (segment: Segment) => segment.end_time >= viewStart && segment.start_time <= viewEnd;
+
+  const getLaneAt = useCallback((clientY: number) => {
+    const lanes = lanesRef.current;
+    if (!lanes || initialData.speakers.length === 0) return null;
+    const index = Math.floor((clientY - lanes.getBoundingClientRect().top) / LANE_HEIGHT);
+    const clamped = Math.min(Math.max(index, 0), initialData.speakers.length - 1);
+    return initialData.speakers[clamped].id;
+  }, [initialData.speakers]);
+
+  const getTimeAt = useCallback((clientX: number) => {
+    const lanes = lanesRef.current;
+    if (!lanes) return 0;
+    return (clientX - lanes.getBoundingClientRect().left) / pixelsPerSecond;
+  }, [pixelsPerSecond]);
+
+  const { beginDrag, beginCreate, draggingId, draft } = useSegmentDrag({
+    segments,
+    duration,
+    pixelsPerSecond,
+    getLaneAt,
+    getTimeAt,
+    onPreview: setSegments,
+    onCommit: (updatedSegments) => {
+      setSegments(updatedSegments);
+      onSegmentUpdate(updatedSegments);
+    },
+    onClick: handleSegmentClick,
+    onCreate: handleCreateSegment,
+  });
+
   const editingSegment = segments.find(s => s.id === editingSegmentId);
+  const editingSpeaker = initialData.speakers.find(s => s.id === editingSegment?.speaker_id);
 
   // Helper to wrap the preview call with the current segment's speaker ID
-  const handlePreviewRequest = async (text: string) => {
+  const handlePreviewRequest = async (text: string, voiceSettings?: VoiceSettings) => {
     if (!editingSegment) return "";
-    return onPreviewAudio(editingSegment.speaker_id, text);
+    return onPreviewAudio(editingSegment.speaker_id, text, editingSegment.id, voiceSettings ?? {});
   }
 
   return (
@@ -130,8 +547,70 @@ export const TimelineEditor: React.FC<TimelineEditorProps> = ({ initialData, onS
           <Edit2 size={18} className="text-indigo-400"/>
           Timeline Editor
         </h3>
-        <div className="text-xs text-gray-400">
-          Duration: {duration.toFixed(1)}s
+        <div className="flex items-center gap-4">
+          {trackLanguages.length > 0 && (
+            <div className="flex items-center bg-gray-800 rounded-md p-0.5 border border-gray-700">
+              {[ORIGINAL_TRACK, ...trackLanguages].map(language => (
+                <button
+                  key={language}
+                  onClick={() => onActiveTrackChange(language)}
+                  className={`px-2.5 py-1 text-xs rounded transition-colors ${
+                    activeTrack === language ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {language === ORIGINAL_TRACK ? `Original (${initialData.metadata.detected_language})` : getLanguageLabel(language)}
+                </button>
+              ))}
+            </div>
+          )}
+          {onReassignSegments && selectedIds.length > 0 && (
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <span className="tabular-nums">{selectedIds.length} selected</span>
+              <select
+                value=""
+                onChange={(e) => handleReassign(e.target.value)}
+                title="Reassign the selected segments (Ctrl/Shift-click to select several)"
+                className="bg-gray-800 text-gray-300 border border-gray-700 rounded-md px-1.5 py-1"
+              >
+                <option value="" disabled>Move to speaker...</option>
+                {initialData.speakers.map(speaker => (
+                  <option key={speaker.id} value={speaker.id}>{speaker.name || speaker.id}</option>
+                ))}
+                <option value={NEW_SPEAKER_OPTION}>+ New speaker</option>
+              </select>
+            </div>
+          )}
+          <button
+            onClick={handleSplitAtPlayhead}
+            disabled={!splitTarget}
+            title={splitTarget ? 'Split the segment under the playhead' : 'Place the playhead inside a segment (select one if several overlap)'}
+            className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-300 hover:text-white bg-gray-800 border border-gray-700 rounded-md disabled:opacity-40 transition-colors"
+          >
+            <Scissors size={12} />
+            Split at playhead
+          </button>
+          <div className="flex items-center bg-gray-800 rounded-md border border-gray-700">
+            <button
+              onClick={() => zoomTo(pixelsPerSecond / ZOOM_STEP)}
+              title="Zoom out (Ctrl+wheel)"
+              className="p-1.5 text-gray-400 hover:text-white"
+            >
+              <ZoomOut size={14} />
+            </button>
+            <button onClick={handleZoomToFit} title="Fit to view" className="p-1.5 text-gray-400 hover:text-white">
+              <Maximize2 size={14} />
+            </button>
+            <button
+              onClick={() => zoomTo(pixelsPerSecond * ZOOM_STEP)}
+              title="Zoom in (Ctrl+wheel)"
+              className="p-1.5 text-gray-400 hover:text-white"
+            >
+              <ZoomIn size={14} />
+            </button>
+          </div>
+          <div className="text-xs text-gray-400 tabular-nums">
+            <PlaybackTime clock={clock} /> / {duration.toFixed(1)}s
+          </div>
         </div>
       </div>
 
@@ -139,6 +618,12 @@ export const TimelineEditor: React.FC<TimelineEditorProps> = ({ initialData, onS
         {/* Sidebar (Speakers) */}
         <div className="w-1/5 min-w-[150px] bg-gray-850 border-r border-gray-700 z-10 flex flex-col">
           <div className="h-8 border-b border-gray-700 bg-gray-900/50"></div> {/* Header spacer */}
+          {(waveform || isWaveformLoading) && (
+            <div className="h-12 px-4 border-b border-gray-700 flex items-center gap-2 text-xs text-gray-500">
+              {waveform ? <AudioWaveform size={14} /> : <Loader2 size={14} className="animate-spin" />}
+              {waveform ? 'Source audio' : 'Decoding audio...'}
+            </div>
+          )}
           <div className="flex-1 overflow-y-auto custom-scrollbar">
             {initialData.speakers.map((speaker) => (
               <div key={speaker.id} className="h-24 px-4 border-b border-gray-700 flex flex-col justify-center relative group hover:bg-gray-800 transition-colors">
@@ -156,50 +641,98 @@ export const TimelineEditor: React.FC<TimelineEditorProps> = ({ initialData, onS
         </div>
 
         {/* Timeline Tracks */}
-        <div className="w-4/5 flex-1 overflow-x-auto overflow-y-auto bg-gray-900 relative custom-scrollbar">
+        {/* Scrolling stays native; pinching zooms the timeline rather than the page */}
+        <div
+          ref={scrollRef}
+          style={{ touchAction: 'pan-x pan-y' }}
+          className="w-4/5 flex-1 overflow-x-auto overflow-y-auto bg-gray-900 relative custom-scrollbar"
+        >
           <div style={{ width: `${totalWidth}px` }} className="relative min-h-full">
+
+            {/* Playhead */}
+            <Playhead clock={clock} pixelsPerSecond={pixelsPerSecond} />
             
             {/* Time Ruler (Top) */}
-            <div className="h-8 border-b border-gray-700 bg-gray-900 sticky top-0 z-20 flex items-end pb-1 select-none">
-              {Array.from({ length: Math.ceil(duration) + 1 }).map((_, i) => (
+            <div
+              onPointerDown={handleRulerPointerDown}
+              onPointerMove={handleRulerPointerMove}
+              className="h-8 border-b border-gray-700 bg-gray-900 sticky top-0 z-20 flex items-end pb-1 select-none cursor-pointer touch-none"
+              title="Click to seek"
+            >
+              {ticks.map(tick => (
                 <div 
-                  key={i} 
-                  className="absolute text-[10px] text-gray-500 border-l border-gray-700 pl-1 h-3"
-                  style={{ left: `${i * PIXELS_PER_SECOND}px` }}
+                  key={tick} 
+                  className="absolute text-[10px] text-gray-500 border-l border-gray-700 pl-1 h-3 whitespace-nowrap"
+                  style={{ left: `${tick * pixelsPerSecond}px` }}
                 >
-                  {i}s
+                  {formatRulerTime(tick, tickStep)}
                 </div>
               ))}
             </div>
 
+            {/* Waveform Lane */}
+            {(waveform || isWaveformLoading) && (
+              <div className="h-12 border-b border-gray-800 relative bg-gray-900/80">
+                {waveform && (
+                  <WaveformLane
+                    waveform={waveform}
+                    pixelsPerSecond={pixelsPerSecond}
+                    viewStart={viewStart}
+                    viewEnd={viewEnd}
+                    height={WAVEFORM_HEIGHT}
+                  />
+                )}
+              </div>
+            )}
+
             {/* Tracks Container */}
-            <div className="relative">
+            <div ref={lanesRef} className="relative">
               {/* Background Grid Lines */}
               <div className="absolute inset-0 pointer-events-none z-0">
-                 {Array.from({ length: Math.ceil(duration) + 1 }).map((_, i) => (
+                 {ticks.map(tick => (
                     <div 
-                      key={i} 
+                      key={tick} 
                       className="absolute h-full border-r border-gray-800/50" 
-                      style={{ left: `${i * PIXELS_PER_SECOND}px` }} 
+                      style={{ left: `${tick * pixelsPerSecond}px` }} 
                     />
                  ))}
               </div>
 
               {/* Speaker Lanes */}
               {initialData.speakers.map((speaker) => (
-                <div key={speaker.id} className="h-24 border-b border-gray-800 relative w-full group">
+                <div
+                  key={speaker.id}
+                  onPointerDown={(e) => beginCreate(e, speaker.id)}
+                  className="h-24 border-b border-gray-800 relative w-full group cursor-crosshair"
+                  title="Drag on an empty area to add a segment"
+                >
                    <div className="absolute inset-0 bg-white/0 group-hover:bg-white/[0.02] pointer-events-none"></div>
 
+                   {draft && draft.speakerId === speaker.id && (
+                     <div
+                       className="absolute top-2 bottom-2 rounded-md border border-dashed border-white/60 bg-white/10 pointer-events-none"
+                       style={{
+                         left: `${draft.start * pixelsPerSecond}px`,
+                         width: `${(draft.end - draft.start) * pixelsPerSecond}px`
+                       }}
+                     />
+                   )}
+
                    {/* Render Segments using Child Component */}
                    {segments
-                     .filter(s => s.speaker_id === speaker.id)
+                     .filter(s => s.speaker_id === speaker.id && (isVisible(s) || s.id === draggingId))
                      .map(segment => (
                        <TimelineSegment 
                           key={segment.id}
                           segment={segment}
-                          pixelsPerSecond={PIXELS_PER_SECOND}
+                          script={getSegmentScript(initialData, segment, activeTrack)}
+                          take={takes[takeKey(segment.id, initialData.active_track)]}
+                          pixelsPerSecond={pixelsPerSecond}
                           colorClass={getSpeakerColor(speaker.id)}
-                          onClick={setEditingSegmentId}
+                          isActive={activeIds.includes(segment.id)}
+                          isSelected={selectedIds.includes(segment.id)}
+                          isDragging={draggingId === segment.id}
+                          onPointerDown={beginDrag}
                        />
                    ))}
                 </div>
@@ -210,11 +743,21 @@ export const TimelineEditor: React.FC<TimelineEditorProps> = ({ initialData, onS
       </div>
 
       <EditModal 
-        isOpen={!!editingSegmentId}
-        initialText={editingSegment?.text || ''}
+        isOpen={!!editingSegment}
+        initialText={editingSegment ? getSegmentScript(initialData, editingSegment, activeTrack) : ''}
+        originalText={activeTrack !== ORIGINAL_TRACK ? editingSegment?.text : undefined}
+        languageLabel={activeTrack !== ORIGINAL_TRACK ? getLanguageLabel(activeTrack) : undefined}
         onClose={() => setEditingSegmentId(null)}
         onSave={handleSaveSegment}
+        voiceSettings={editingSegment?.voice_settings}
+        speakerVoiceSettings={editingSpeaker?.voice_settings}
+        capabilities={VoiceManager.getProvider(
+          VoiceManager.resolveProviderId(editingSpeaker?.voice_provider, initialData.voice_provider)
+        ).capabilities}
         onPreview={handlePreviewRequest}
+        onSplit={handleSplitSegment}
+        onMergeNext={editingSegment && getNextInLane(segments, editingSegment.id) ? handleMergeNext : undefined}
+        onDelete={handleDeleteSegment}
       />
     </div>
   );
@@ -0,0 +1,159 @@
+import React, { ChangeEvent, useState } from 'react';
+import { FileText, X, AlertCircle } from 'lucide-react';
+import {
+  parseTranscript,
+  ImportedTranscript,
+  TranscriptParseError,
+  TranscriptParseIssue,
+} from '../services/SubtitleImporter';
+
+export type TranscriptMode = 'skip' | 'seed';
+
+interface TranscriptImportProps {
+  transcript: ImportedTranscript | null;
+  mode: TranscriptMode;
+  onTranscriptChange: (transcript: ImportedTranscript | null) => void;
+  onModeChange: (mode: TranscriptMode) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Optional transcript picker shown alongside the video uploader.
+ */
+export const TranscriptImport: React.FC<TranscriptImportProps> = ({
+  transcript,
+  mode,
+  onTranscriptChange,
+  onModeChange,
+  disabled,
+}) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileText, setFileText] = useState('');
+  const [speakerPrefixes, setSpeakerPrefixes] = useState(false);
+  const [issues, setIssues] = useState<TranscriptParseIssue[]>([]);
+
+  const parse = (text: string, name: string, withPrefixes: boolean) => {
+    try {
+      onTranscriptChange(parseTranscript(text, name, { speakerPrefixes: withPrefixes }));
+      setIssues([]);
+    } catch (error: any) {
+      onTranscriptChange(null);
+      setIssues(
+        error instanceof TranscriptParseError
+          ? error.issues
+          : [{ line: 1, message: error?.message || 'Could not read transcript.' }]
+      );
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setFileText(text);
+    parse(text, file.name, speakerPrefixes);
+  };
+
+  const handleSpeakerPrefixesChange = (checked: boolean) => {
+    setSpeakerPrefixes(checked);
+    if (fileName) parse(fileText, fileName, checked);
+  };
+
+  const clear = () => {
+    setFileName(null);
+    setFileText('');
+    setIssues([]);
+    onTranscriptChange(null);
+  };
+
+  return (
+    <div className="w-full max-w-xl mx-auto mt-4 bg-gray-800 border border-gray-700 rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm text-gray-300">
+          <FileText size={16} className="text-indigo-400" />
+          {fileName ? (
+            <span className="truncate max-w-[240px]" title={fileName}>{fileName}</span>
+          ) : (
+            <span>Have a transcript? <span className="text-gray-500">(SRT, VTT or analysis JSON)</span></span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className={`text-xs text-indigo-400 hover:text-indigo-300 underline ${disabled ? 'pointer-events-none opacity-50' : 'cursor-pointer'}`}>
+            {fileName ? 'Replace' : 'Load transcript'}
+            <input
+              type="file"
+              className="hidden"
+              accept=".srt,.vtt,.json,text/vtt,application/json"
+              onChange={handleFileChange}
+              disabled={disabled}
+            />
+          </label>
+          {fileName && (
+            <button onClick={clear} className="text-gray-500 hover:text-white" title="Remove transcript">
+              <X size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {fileName && transcript?.format !== 'json' && (
+        <label className="mt-3 flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={speakerPrefixes}
+            onChange={(e) => handleSpeakerPrefixesChange(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          Lines start with the speaker's name ("Name: text")
+        </label>
+      )}
+
+      {transcript && (
+        <div className="mt-3 space-y-2">
+          <p className="text-xs text-gray-500">
+            {transcript.analysis.segments.length} segments, {transcript.analysis.speakers.length} speaker(s)
+            {!transcript.hasSpeakerLabels && ' (no speaker labels found)'}
+            {transcript.warnings.length > 0 && `, ${transcript.warnings.length} issue(s) to review after loading`}
+          </p>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="radio"
+              name="transcript-mode"
+              checked={mode === 'skip'}
+              onChange={() => onModeChange('skip')}
+              className="accent-indigo-500"
+            />
+            Use as-is (skip analysis)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="radio"
+              name="transcript-mode"
+              checked={mode === 'seed'}
+              onChange={() => onModeChange('seed')}
+              className="accent-indigo-500"
+            />
+            Let the analysis attribute speakers only
+          </label>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div className="mt-3 p-3 bg-red-900/30 border border-red-800 rounded-md max-h-40 overflow-y-auto">
+          <p className="flex items-center gap-1.5 text-xs font-semibold text-red-300 mb-1">
+            <AlertCircle size={12} />
+            Could not parse transcript
+          </p>
+          <ul className="text-xs text-red-200 font-mono space-y-0.5">
+            {issues.map((issue, i) => (
+              <li key={i}>Line {issue.line}: {issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
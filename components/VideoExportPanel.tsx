@@ -0,0 +1,103 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Film, Download, Loader2, X } from 'lucide-react';
+import { exportDubbedVideo, getSupportedExportMimeType } from '../services/VideoExporter';
+
+interface VideoExportPanelProps {
+  videoFile: File;
+  dubTrack: AudioBuffer;
+  baseName?: string;
+}
+
+/**
+ * Exports the original video with the rendered dub as its soundtrack.
+ * Background audio (ducked original or stem) is already part of the render,
+ * so the original element audio is muted here.
+ */
+export const VideoExportPanel: React.FC<VideoExportPanelProps> = ({ videoFile, dubTrack, baseName }) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [download, setDownload] = useState<{ url: string; extension: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop recording if the dialog is closed mid-export
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    return () => {
+      if (download) URL.revokeObjectURL(download.url);
+    };
+  }, [download]);
+
+  if (!getSupportedExportMimeType()) {
+    return <p className="text-xs text-gray-500">Video export is not supported in this browser.</p>;
+  }
+
+  const handleExport = async () => {
+    abortRef.current = new AbortController();
+    setDownload(null);
+    setProgress(0);
+    try {
+      const result = await exportDubbedVideo(videoFile, dubTrack, {
+        originalAudioGain: 0,
+        onProgress: setProgress,
+        signal: abortRef.current.signal,
+      });
+      setDownload({ url: URL.createObjectURL(result.blob), extension: result.extension });
+    } catch (error: any) {
+      if (error?.name !== 'AbortError') {
+        console.error("Video export failed", error);
+        alert(error?.message || "Failed to export video.");
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-700 pt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm font-medium text-white">
+          <Film size={16} className="text-indigo-400" />
+          Dubbed Video
+        </span>
+      </div>
+
+      {progress !== null ? (
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-2 bg-gray-900 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+          >
+            <X size={12} />
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">Recording runs in real time; keep this tab in the foreground.</p>
+      )}
+
+      <div className="flex justify-end gap-3">
+        {download && (
+          <a
+            href={download.url}
+            download={`${baseName || 'dubstudio'}_dubbed.${download.extension}`}
+            className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm font-medium transition-colors"
+          >
+            <Download size={14} />
+            Download .{download.extension}
+          </a>
+        )}
+        <button
+          onClick={handleExport}
+          disabled={progress !== null}
+          className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white rounded-md text-sm font-medium transition-colors"
+        >
+          {progress !== null ? <Loader2 size={14} className="animate-spin" /> : <Film size={14} />}
+          Export Video
+        </button>
+      </div>
+    </div>
+  );
+};
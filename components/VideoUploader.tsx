@@ -23,7 +23,7 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, isLo
             <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 13h3a3 3 0 0 0 0-6h-.025A5.56 5.56 0 0 0 16 6.5 5.5 5.5 0 0 0 5.207 5.021C5.137 5.017 5.071 5 5 5a4 4 0 0 0 0 8h2.167M10 15V6m0 0L8 8m2-2 2 2"/>
           </svg>
           <p className="mb-2 text-sm text-gray-400"><span className="font-semibold">Click to upload video</span></p>
-          <p className="text-xs text-gray-500">MP4, MOV, WebM (Max 50MB for demo)</p>
+          <p className="text-xs text-gray-500">MP4, MOV, WebM (long videos are analyzed in parts)</p>
         </div>
         <input 
           id="dropzone-file" 
@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { X, Library, Save, Search, Trash2, Play, Check, Loader2, RefreshCw } from 'lucide-react';
+import { Speaker } from '../types';
+import { LibraryVoice, parseTags, matchesVoice } from '../services/VoiceLibrary';
+import { VoiceRef } from '../services/VoiceProvider';
+
+interface VoiceLibraryDialogProps {
+  // Dialog is open while a speaker is set
+  speaker: Speaker | null;
+  voices: LibraryVoice[];
+  isLoading: boolean;
+  // Voice the speaker currently uses; saving is offered when set
+  currentVoice?: VoiceRef;
+  onSave: (speakerId: string, name: string, tags: string[]) => Promise<void>;
+  onAssign: (speakerId: string, voice: LibraryVoice) => void;
+  // Clones a saved voice again from its reference clip and assigns it
+  onReclone: (speakerId: string, voice: LibraryVoice) => Promise<void>;
+  onRemove: (id: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export const VoiceLibraryDialog: React.FC<VoiceLibraryDialogProps> = ({
+  speaker,
+  voices,
+  isLoading,
+  currentVoice,
+  onSave,
+  onAssign,
+  onReclone,
+  onRemove,
+  onClose,
+}) => {
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [query, setQuery] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [recloningId, setRecloningId] = useState<string | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!speaker) return;
+    setName(speaker.name);
+    setTags('');
+    setQuery('');
+    setPreviewUrl(null);
+  }, [speaker?.id]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  if (!speaker) return null;
+
+  const isCurrent = (voice: LibraryVoice) =>
+    voice.provider === currentVoice?.provider && voice.voice_id === currentVoice.voiceId;
+  const isSaved = voices.some(v => !v.stock && isCurrent(v));
+  const visible = voices.filter(v => matchesVoice(v, query));
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave(speaker.id, name.trim(), parseTags(tags));
+    } catch (error: any) {
+      console.error("Could not save voice:", error);
+      alert(error.message || "Could not save the voice to the library.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReclone = async (voice: LibraryVoice) => {
+    setRecloningId(voice.id);
+    try {
+      await onReclone(speaker.id, voice);
+    } catch (error: any) {
+      console.error("Could not clone voice again:", error);
+      alert(error.message || "Could not clone the voice again.");
+    } finally {
+      setRecloningId(null);
+    }
+  };
+
+  const handleRemove = async (voice: LibraryVoice) => {
+    if (!confirm(`Remove "${voice.name}" from the voice library?`)) return;
+    try {
+      await onRemove(voice.id);
+    } catch (error: any) {
+      console.error("Could not remove voice:", error);
+      alert(error.message || "Could not remove the voice.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-xl border border-gray-700 flex flex-col max-h-[85vh]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Library size={18} className="text-indigo-400" />
+            Voice Library: {speaker.name || speaker.id}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {currentVoice && !isSaved && (
+            <div className="p-3 bg-gray-900 rounded-md border border-gray-700 space-y-2">
+              <p className="text-xs text-gray-400">Save this speaker's current voice to reuse it in other projects.</p>
+              <div className="flex gap-2">
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Voice name"
+                  className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                />
+                <input
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="Tags, comma separated"
+                  className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                />
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving || !name.trim()}
+                  className="flex items-center gap-1.5 px-3 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white rounded text-sm transition-colors"
+                >
+                  {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 bg-gray-900 border border-gray-700 rounded-md px-2">
+            <Search size={14} className="text-gray-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name or tag"
+              className="flex-1 bg-transparent py-1.5 text-sm text-white outline-none"
+            />
+          </div>
+
+          <div className="border border-gray-700 rounded-md divide-y divide-gray-700">
+            {visible.map(voice => {
+              const inUse = isCurrent(voice);
+              return (
+                <div key={voice.id} className="flex items-center gap-3 p-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white truncate">{voice.name}</p>
+                    <div className="flex flex-wrap items-center gap-1 mt-0.5 text-[10px]">
+                      <span className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300">
+                        {voice.stock ? `${voice.provider} stock` : voice.provider}
+                      </span>
+                      {voice.tags.map(tag => (
+                        <span key={tag} className="px-1.5 py-0.5 rounded bg-indigo-900/50 text-indigo-300">{tag}</span>
+                      ))}
+                    </div>
+                  </div>
+                  {voice.reference && (
+                    <button
+                      onClick={() => setPreviewUrl(URL.createObjectURL(voice.reference!))}
+                      title="Play reference clip"
+                      className="p-1 text-gray-400 hover:text-white"
+                    >
+                      <Play size={14} />
+                    </button>
+                  )}
+                  {!voice.stock && voice.reference && (
+                    <button
+                      onClick={() => handleReclone(voice)}
+                      disabled={recloningId !== null}
+                      title="Clone again from the reference clip (if the provider no longer has this voice)"
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-60"
+                    >
+                      {recloningId === voice.id ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                    </button>
+                  )}
+                  {!voice.stock && (
+                    <button onClick={() => handleRemove(voice)} title="Remove from library" className="p-1 text-gray-400 hover:text-red-400">
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                  {inUse ? (
+                    <span className="flex items-center gap-1 px-2 py-1 text-xs text-green-400">
+                      <Check size={12} />
+                      In use
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => onAssign(speaker.id, voice)}
+                      className="px-2 py-1 text-xs bg-gray-700 hover:bg-indigo-600 text-white rounded transition-colors"
+                    >
+                      Assign
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+            {isLoading && (
+              <p className="p-3 text-xs text-gray-500 flex items-center gap-2">
+                <Loader2 size={12} className="animate-spin" />
+                Loading saved voices...
+              </p>
+            )}
+            {!isLoading && visible.length === 0 && (
+              <p className="p-3 text-xs text-gray-500 italic">No voices match.</p>
+            )}
+          </div>
+
+          {previewUrl && <audio src={previewUrl} controls autoPlay className="w-full" />}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, AudioLines, Upload, Wand2, Play, Loader2, AlertTriangle } from 'lucide-react';
+import { Segment, Speaker } from '../types';
+import { SourceAudioCache } from '../services/SourceAudioCache';
+import {
+  VoiceReference,
+  ReferenceRange,
+  REFERENCE_TARGET_SECONDS,
+  MIN_REFERENCE_SECONDS,
+  getReferenceDuration,
+  suggestReferenceSegments,
+  limitReferenceLength,
+} from '../utils/voiceReference';
+
+interface VoiceReferenceDialogProps {
+  // Dialog is open while a speaker is set
+  speaker: Speaker | null;
+  segments: Segment[];
+  // Source video for building and auditioning the clip; null in demo mode or before re-linking
+  videoFile: File | null;
+  onSubmit: (speakerId: string, reference: VoiceReference) => Promise<void>;
+  onClose: () => void;
+}
+
+type ReferenceSource = 'segments' | 'file';
+
+// Seconds trimmed from each edge of a selected segment
+interface Trim {
+  start: number;
+  end: number;
+}
+
+const TARGET_OPTIONS = [10, 20, 30, 60];
+
+const isWavFile = (file: File) =>
+  /wav/i.test(file.type) || file.name.toLowerCase().endsWith('.wav');
+
+export const VoiceReferenceDialog: React.FC<VoiceReferenceDialogProps> = ({
+  speaker,
+  segments,
+  videoFile,
+  onSubmit,
+  onClose,
+}) => {
+  const [source, setSource] = useState<ReferenceSource>('segments');
+  const [trims, setTrims] = useState<Record<string, Trim>>({});
+  const [targetSeconds, setTargetSeconds] = useState(REFERENCE_TARGET_SECONDS);
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isBuildingPreview, setIsBuildingPreview] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const speakerSegments = useMemo(
+    () => (speaker ? segments.filter(s => s.speaker_id === speaker.id).sort((a, b) => a.start_time - b.start_time) : []),
+    [segments, speaker]
+  );
+
+  // Start from the suggested segments whenever the dialog opens for a speaker
+  useEffect(() => {
+    if (!speaker) return;
+    const suggested = suggestReferenceSegments(segments, speaker.id, REFERENCE_TARGET_SECONDS);
+    setTrims(Object.fromEntries(suggested.map(id => [id, { start: 0, end: 0 }])));
+    setSource('segments');
+    setTargetSeconds(REFERENCE_TARGET_SECONDS);
+    setFile(null);
+    setError(null);
+  }, [speaker?.id]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const ranges: ReferenceRange[] = useMemo(() => limitReferenceLength(
+    speakerSegments
+      .filter(s => trims[s.id])
+      .map(s => ({ segmentId: s.id, start: s.start_time + trims[s.id].start, end: s.end_time - trims[s.id].end }))
+      .filter(r => r.end > r.start),
+    targetSeconds
+  ), [speakerSegments, trims, targetSeconds]);
+
+  // The clip changed, so the old audition no longer matches it
+  useEffect(() => setPreviewUrl(null), [ranges, file, source]);
+
+  if (!speaker) return null;
+
+  const totalSeconds = getReferenceDuration(ranges);
+  const canSubmit = source === 'file' ? !!file : ranges.length > 0;
+
+  const toggleSegment = (segmentId: string) => {
+    setTrims(prev => {
+      const next = { ...prev };
+      if (next[segmentId]) {
+        delete next[segmentId];
+      } else {
+        next[segmentId] = { start: 0, end: 0 };
+      }
+      return next;
+    });
+  };
+
+  const updateTrim = (segment: Segment, edge: keyof Trim, value: number) => {
+    const length = segment.end_time - segment.start_time;
+    setTrims(prev => {
+      const trim = prev[segment.id];
+      const other = edge === 'start' ? trim.end : trim.start;
+      // Keep at least a tenth of a second of the segment
+      const clamped = Math.min(Math.max(0, value || 0), Math.max(0, length - other - 0.1));
+      return { ...prev, [segment.id]: { ...trim, [edge]: clamped } };
+    });
+  };
+
+  const handleSuggest = () => {
+    const suggested = suggestReferenceSegments(segments, speaker.id, targetSeconds);
+    setTrims(Object.fromEntries(suggested.map(id => [id, { start: 0, end: 0 }])));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+    if (!isWavFile(picked)) {
+      setError("Please choose a WAV file.");
+      return;
+    }
+    setError(null);
+    setFile(picked);
+  };
+
+  const handleListen = async () => {
+    setError(null);
+    if (source === 'file') {
+      if (file) setPreviewUrl(URL.createObjectURL(file));
+      return;
+    }
+    if (!videoFile) return;
+    setIsBuildingPreview(true);
+    try {
+      const clip = await SourceAudioCache.extractRanges(videoFile, ranges);
+      setPreviewUrl(URL.createObjectURL(clip));
+    } catch (err: any) {
+      setError(err.message || "Could not build the reference clip.");
+    } finally {
+      setIsBuildingPreview(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(speaker.id, source === 'file' ? { kind: 'file', file: file! } : { kind: 'segments', ranges });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Voice cloning failed.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl border border-gray-700 flex flex-col max-h-[85vh]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <AudioLines size={18} className="text-indigo-400" />
+            Voice Reference: {speaker.name || speaker.id}
+          </h3>
+          <button onClick={onClose} disabled={isSubmitting} className="text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="flex items-center bg-gray-900 rounded-md p-0.5 border border-gray-700 w-fit">
+            {(['segments', 'file'] as ReferenceSource[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setSource(option)}
+                className={`px-3 py-1 text-xs rounded transition-colors ${
+                  source === option ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {option === 'segments' ? 'From video segments' : 'Upload WAV'}
+              </button>
+            ))}
+          </div>
+
+          {source === 'segments' ? (
+            <>
+              <div className="flex items-center justify-between text-xs text-gray-400">
+                <label className="flex items-center gap-2">
+                  Target length
+                  <select
+                    value={targetSeconds}
+                    onChange={(e) => setTargetSeconds(Number(e.target.value))}
+                    className="bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-white"
+                  >
+                    {TARGET_OPTIONS.map(seconds => (
+                      <option key={seconds} value={seconds}>{seconds}s</option>
+                    ))}
+                  </select>
+                </label>
+                <button onClick={handleSuggest} className="flex items-center gap-1 text-indigo-300 hover:text-indigo-200">
+                  <Wand2 size={12} />
+                  Pick longest segments
+                </button>
+              </div>
+
+              <div className="border border-gray-700 rounded-md divide-y divide-gray-700 max-h-72 overflow-y-auto">
+                {speakerSegments.map(segment => {
+                  const trim = trims[segment.id];
+                  return (
+                    <div key={segment.id} className={`p-2 text-xs ${trim ? 'bg-gray-700/50' : ''}`}>
+                      <label className="flex items-start gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!trim}
+                          onChange={() => toggleSegment(segment.id)}
+                          className="mt-0.5 accent-indigo-500"
+                        />
+                        <span className="text-gray-500 tabular-nums whitespace-nowrap">
+                          {segment.start_time.toFixed(1)}s - {segment.end_time.toFixed(1)}s
+                        </span>
+                        <span className="text-gray-300 truncate">{segment.text}</span>
+                      </label>
+                      {trim && (
+                        <div className="flex items-center gap-3 mt-1.5 ml-6 text-gray-400">
+                          {(['start', 'end'] as (keyof Trim)[]).map(edge => (
+                            <label key={edge} className="flex items-center gap-1">
+                              Trim {edge}
+                              <input
+                                type="number"
+                                min={0}
+                                step={0.1}
+                                value={trim[edge]}
+                                onChange={(e) => updateTrim(segment, edge, parseFloat(e.target.value))}
+                                className="w-16 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-white"
+                              />
+                              s
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {speakerSegments.length === 0 && (
+                  <p className="p-3 text-xs text-gray-500 italic">This speaker has no segments yet.</p>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-gray-400 tabular-nums">
+                  {ranges.length} clip(s), {totalSeconds.toFixed(1)}s of {targetSeconds}s
+                </span>
+                {ranges.length > 0 && totalSeconds < MIN_REFERENCE_SECONDS && (
+                  <span className="flex items-center gap-1 text-amber-300">
+                    <AlertTriangle size={12} />
+                    Less than {MIN_REFERENCE_SECONDS}s may clone poorly
+                  </span>
+                )}
+              </div>
+              {!videoFile && (
+                <p className="text-xs text-gray-500 italic">Link the source video to listen to the clip.</p>
+              )}
+            </>
+          ) : (
+            <div className="space-y-2">
+              <label className="flex items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-600 rounded-md text-sm text-gray-400 hover:border-indigo-500 hover:text-white cursor-pointer transition-colors">
+                <Upload size={16} />
+                {file ? file.name : 'Choose a clean WAV recording of this speaker'}
+                <input type="file" accept=".wav,audio/wav,audio/x-wav" onChange={handleFileChange} className="hidden" />
+              </label>
+            </div>
+          )}
+
+          {previewUrl && <audio src={previewUrl} controls autoPlay className="w-full" />}
+
+          {error && (
+            <div className="flex items-center gap-2 p-2 bg-red-900/30 border border-red-800 rounded text-xs text-red-300">
+              <AlertTriangle size={14} />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-gray-700">
+          <button
+            onClick={handleListen}
+            disabled={!canSubmit || isBuildingPreview || (source === 'segments' && !videoFile)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 hover:text-white border border-gray-600 rounded-md disabled:opacity-40 transition-colors"
+          >
+            {isBuildingPreview ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+            Listen
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit || isSubmitting}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white rounded-md text-sm font-medium transition-colors"
+          >
+            {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+            {isSubmitting ? 'Cloning...' : 'Clone voice'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { VoiceEmotion, VoiceSettings } from '../types';
+import {
+  MIN_SPEECH_SPEED,
+  MAX_SPEECH_SPEED,
+  MIN_SPEECH_PITCH,
+  MAX_SPEECH_PITCH,
+  SPEECH_EMOTIONS,
+  ProviderCapabilities,
+} from '../services/VoiceProvider';
+
+interface VoiceSettingsFieldsProps {
+  value: VoiceSettings;
+  onChange: (settings: VoiceSettings) => void;
+  // Values used for unset fields (the speaker's defaults when editing a segment)
+  inherited?: VoiceSettings;
+  inheritedLabel?: string;
+  // Fields the voice provider ignores are disabled
+  capabilities?: ProviderCapabilities;
+}
+
+interface SliderField {
+  key: 'speed' | 'volume' | 'pitch';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  neutral: number;
+  format: (value: number) => string;
+}
+
+// Volume is limited to 2x here; louder takes clip once mixed
+const SLIDERS: SliderField[] = [
+  { key: 'speed', label: 'Speed', min: MIN_SPEECH_SPEED, max: MAX_SPEECH_SPEED, step: 0.05, neutral: 1, format: v => `${v.toFixed(2)}x` },
+  { key: 'volume', label: 'Volume', min: 0.1, max: 2, step: 0.05, neutral: 1, format: v => `${Math.round(v * 100)}%` },
+  { key: 'pitch', label: 'Pitch', min: MIN_SPEECH_PITCH, max: MAX_SPEECH_PITCH, step: 1, neutral: 0, format: v => `${v > 0 ? '+' : ''}${v} st` },
+];
+
+const without = (settings: VoiceSettings, key: keyof VoiceSettings): VoiceSettings => {
+  const next = { ...settings };
+  delete next[key];
+  return next;
+};
+
+/**
+ * Speed, volume, pitch and emotion controls. Fields that are not set show the
+ * inherited value and can be reset back to it.
+ */
+export const VoiceSettingsFields: React.FC<VoiceSettingsFieldsProps> = ({
+  value,
+  onChange,
+  inherited = {},
+  inheritedLabel = 'default',
+  capabilities,
+}) => {
+  const unsupported = (key: keyof VoiceSettings) => capabilities?.[key] === false;
+  return (
+    <div className="space-y-2 text-xs text-gray-400">
+      {SLIDERS.map(field => {
+        const isSet = value[field.key] !== undefined;
+        const current = value[field.key] ?? inherited[field.key] ?? field.neutral;
+        // Providers clamp speeds outside their own range
+        const [min, max] = field.key === 'speed' && capabilities ? capabilities.speedRange : [field.min, field.max];
+        return (
+          <div key={field.key} className="flex items-center gap-2">
+            <span className="w-14">{field.label}</span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={field.step}
+              value={current}
+              onChange={(e) => onChange({ ...value, [field.key]: parseFloat(e.target.value) })}
+              disabled={unsupported(field.key)}
+              title={unsupported(field.key) ? 'Not supported by this voice provider' : undefined}
+              className={`flex-1 accent-indigo-500 ${isSet ? '' : 'opacity-50'}`}
+            />
+            <span className={`w-14 text-right tabular-nums ${isSet ? 'text-white' : ''}`}>{field.format(current)}</span>
+            <button
+              onClick={() => onChange(without(value, field.key))}
+              disabled={!isSet}
+              title={`Use ${inheritedLabel}`}
+              className="p-0.5 text-gray-500 hover:text-white disabled:invisible"
+            >
+              <RotateCcw size={12} />
+            </button>
+          </div>
+        );
+      })}
+      <div className="flex items-center gap-2">
+        <span className="w-14">Emotion</span>
+        <select
+          value={value.emotion ?? ''}
+          onChange={(e) => onChange(
+            e.target.value ? { ...value, emotion: e.target.value as VoiceEmotion } : without(value, 'emotion')
+          )}
+          disabled={unsupported('emotion')}
+          title={unsupported('emotion') ? 'Not supported by this voice provider' : undefined}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded px-1.5 py-1 text-white"
+        >
+          <option value="">{`${inheritedLabel} (${inherited.emotion ?? 'neutral'})`}</option>
+          {SPEECH_EMOTIONS.map(emotion => (
+            <option key={emotion} value={emotion}>{emotion}</option>
+          ))}
+        </select>
+        <span className="w-4" />
+      </div>
+    </div>
+  );
+};
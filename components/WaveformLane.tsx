@@ -0,0 +1,56 @@
+import React, { useRef, useEffect, memo } from 'react';
+import { WaveformData } from '../services/WaveformExtractor';
+
+interface WaveformLaneProps {
+  waveform: WaveformData;
+  pixelsPerSecond: number;
+  // Visible time range; only this part is drawn
+  viewStart: number;
+  viewEnd: number;
+  height: number;
+}
+
+/**
+ * Draws the visible slice of the waveform onto a canvas positioned at viewStart,
+ * so the canvas never grows with the length of the video.
+ */
+export const WaveformLane = memo(({ waveform, pixelsPerSecond, viewStart, viewEnd, height }: WaveformLaneProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const width = Math.max(1, Math.ceil((viewEnd - viewStart) * pixelsPerSecond));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = 'rgba(129, 140, 248, 0.6)'; // indigo-400
+
+    const { peaks, peaksPerSecond } = waveform;
+    const mid = height / 2;
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor((viewStart + x / pixelsPerSecond) * peaksPerSecond);
+      const to = Math.max(from + 1, Math.floor((viewStart + (x + 1) / pixelsPerSecond) * peaksPerSecond));
+      let peak = 0;
+      for (let i = Math.max(0, from); i < Math.min(to, peaks.length); i++) {
+        if (peaks[i] > peak) peak = peaks[i];
+      }
+      const h = Math.max(1, peak * (height - 4));
+      ctx.fillRect(x, mid - h / 2, 1, h);
+    }
+  }, [waveform, pixelsPerSecond, viewStart, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute top-0 pointer-events-none"
+      style={{ left: `${viewStart * pixelsPerSecond}px`, width: `${width}px`, height: `${height}px` }}
+    />
+  );
+});
+
+WaveformLane.displayName = 'WaveformLane';
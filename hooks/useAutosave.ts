@@ -0,0 +1,49 @@
+import { useState, useEffect, useRef } from 'react';
+import { BundledAudio } from '../types';
+import { serializeProject, ProjectState } from '../services/ProjectSerializer';
+import { SessionStore } from '../services/SessionStore';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * Debounced autosave of the working session to IndexedDB.
+ *
+ * @param state Current session state, or null when there is nothing to save yet
+ * @param revision Extra change signal for state that lives outside React
+ *                 (e.g. the VoiceManager voice map, which changes as voices clone)
+ */
+export const useAutosave = (state: ProjectState | null, revision: unknown) => {
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Takes are encoded once, not on every edit
+  const audioCacheRef = useRef(new Map<string, BundledAudio>());
+
+  useEffect(() => {
+    if (!state) return;
+
+    const timer = setTimeout(async () => {
+      const latest = stateRef.current;
+      if (!latest) return;
+      try {
+        // Takes are bundled so generated audio survives a reload too
+        const audioCache = audioCacheRef.current;
+        const project = await serializeProject(latest, { bundleAudio: true, audioCache });
+        // Forget takes that were replaced or discarded
+        const urls = new Set(Object.values(latest.takes).map(take => take.audio_url));
+        [...audioCache.keys()].filter(url => !urls.has(url)).forEach(url => audioCache.delete(url));
+        await SessionStore.saveSession(project);
+        setLastSavedAt(new Date());
+        setSaveError(null);
+      } catch (error: any) {
+        console.error('Autosave failed:', error);
+        setSaveError(error?.message || 'Autosave failed');
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [state?.analysis, state?.takes, state?.videoFile, state?.source, state?.sourceHash, state?.history, revision]);
+
+  return { lastSavedAt, saveError };
+};
@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { GeneratedTake, Segment, VideoAnalysisResult, VoiceSettings } from '../types';
+import { DubPreviewPlayer, PreviewCue } from '../services/DubPreview';
+import { isTakeCurrent } from '../services/DubRenderer';
+import { MixSettings, getDuckIntervals, duckGainAt } from '../services/BackgroundMixer';
+import { getSegmentScript, takeKey } from '../utils/tracks';
+import { resolveVoiceSettings } from '../utils/voiceSettings';
+import { PlaybackClock, usePlaybackTime } from './usePlayback';
+
+export type PreviewAudio = 'original' | 'dub';
+
+// Missing takes are generated for segments starting within this window of the playhead
+const GENERATE_AHEAD = 15;
+
+// Everything a take depends on; a failed segment is retried once this changes
+const takeSignature = (track: string | undefined, segment: Segment, script: string, settings: VoiceSettings) =>
+  JSON.stringify([track ?? null, segment.speaker_id, script, settings]);
+
+interface DubPreviewOptions {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  clock: PlaybackClock;
+  isPlaying: boolean;
+  analysis: VideoAnalysisResult | null;
+  takes: Record<string, GeneratedTake>;
+  mixSettings: MixSettings;
+  // False while voices are still being prepared
+  canGenerate: boolean;
+  // Synthesizes and stores a take for the segment on the active track
+  generateTake: (segment: Segment) => Promise<unknown>;
+}
+
+/**
+ * Live dub preview: plays the active track's takes over the video, with the
+ * original soundtrack muted or ducked per the mix settings. Switching between
+ * original and dub only changes levels, so it is instant.
+ */
+export const useDubPreview = ({
+  videoRef,
+  clock,
+  isPlaying,
+  analysis,
+  takes,
+  mixSettings,
+  canGenerate,
+  generateTake,
+}: DubPreviewOptions) => {
+  const [audio, setAudio] = useState<PreviewAudio>('original');
+  const [autoGenerate, setAutoGenerate] = useState(true);
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
+  // Segment ID -> what it looked like when generation failed; see takeSignature
+  const [failures, setFailures] = useState<Map<string, string>>(new Map());
+  const playerRef = useRef<DubPreviewPlayer | null>(null);
+  const generateRef = useRef(generateTake);
+  generateRef.current = generateTake;
+
+  if (!playerRef.current) playerRef.current = new DubPreviewPlayer();
+  const player = playerRef.current;
+
+  useEffect(() => () => player.dispose(), [player]);
+
+  // Split the active track's speakable segments into playable cues and missing takes
+  const { cues, missing, signatures } = useMemo(() => {
+    const cues: PreviewCue[] = [];
+    const missing: Segment[] = [];
+    const signatures = new Map<string, string>();
+    analysis?.segments.forEach(segment => {
+      const script = getSegmentScript(analysis, segment, analysis.active_track);
+      if (!script.trim()) return;
+      const take = takes[takeKey(segment.id, analysis.active_track)];
+      const settings = resolveVoiceSettings(analysis.speakers, segment);
+      if (isTakeCurrent(take, segment, script, settings)) {
+        cues.push({ segmentId: segment.id, start: segment.start_time, end: segment.end_time, audioUrl: take.audio_url });
+      } else {
+        missing.push(segment);
+        signatures.set(segment.id, takeSignature(analysis.active_track, segment, script, settings));
+      }
+    });
+    return { cues, missing, signatures };
+  }, [analysis, takes]);
+
+  const duckIntervals = useMemo(
+    () => (analysis ? getDuckIntervals(analysis.segments, mixSettings) : []),
+    [analysis, mixSettings]
+  );
+
+  useEffect(() => {
+    if (isPlaying) {
+      player.start(videoRef.current?.currentTime ?? clock.get());
+    } else {
+      player.stop();
+    }
+  }, [isPlaying, player]);
+
+  useEffect(() => {
+    player.setLevel(audio === 'dub' ? 1 : 0);
+  }, [audio, player]);
+
+  // Follows the clock directly; rendering every frame is not needed to schedule audio
+  useEffect(() => {
+    const sync = () => {
+      const currentTime = clock.get();
+      if (isPlaying) player.update(currentTime, cues);
+
+      const video = videoRef.current;
+      if (!video) return;
+      if (audio === 'original') {
+        video.volume = 1;
+      } else if (mixSettings.mode === 'replace') {
+        video.volume = 0;
+      } else {
+        // Stem separation needs the whole soundtrack, so the live preview ducks instead
+        video.volume = Math.min(1, Math.max(0, duckGainAt(currentTime, duckIntervals, mixSettings)));
+      }
+    };
+    sync();
+    return clock.subscribe(sync);
+  }, [clock, isPlaying, cues, audio, mixSettings, duckIntervals, player]);
+
+  // A failed segment gets another chance once its text, speaker or voice settings change
+  const hasFailed = (segment: Segment) => failures.get(segment.id) === signatures.get(segment.id);
+  const candidates = useMemo(
+    () => missing.filter(s => !hasFailed(s)).sort((a, b) => a.start_time - b.start_time),
+    [missing, signatures, failures]
+  );
+  const isGenerating = audio === 'dub' && autoGenerate && canGenerate;
+  // Only changes when another segment becomes the next one to generate
+  const nextId = usePlaybackTime(clock, time => isGenerating
+    ? candidates.find(s => s.end_time > time && s.start_time < time + GENERATE_AHEAD)?.id ?? null
+    : null);
+
+  // Generate missing takes one at a time, nearest upcoming segment first
+  useEffect(() => {
+    if (!nextId || generatingId) return;
+    const next = candidates.find(s => s.id === nextId);
+    if (!next) return;
+
+    setGeneratingId(next.id);
+    const signature = signatures.get(next.id)!;
+    generateRef.current(next)
+      .catch(error => {
+        console.error(`Preview generation failed for ${next.id}`, error);
+        setFailures(prev => new Map(prev).set(next.id, signature));
+      })
+      .finally(() => setGeneratingId(null));
+  }, [nextId, generatingId, candidates, signatures]);
+
+  return {
+    audio,
+    setAudio,
+    autoGenerate,
+    setAutoGenerate,
+    generatingId,
+    missingCount: missing.length,
+    failedCount: missing.filter(hasFailed).length,
+  };
+};
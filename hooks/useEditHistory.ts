@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { EditCommand, EditHistory, VideoAnalysisResult } from '../types';
+import {
+  EMPTY_HISTORY,
+  CommandEffects,
+  HistoryDirection,
+  createCommand,
+  applyCommand,
+  pushCommand,
+} from '../services/EditHistory';
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+/**
+ * Undo/redo for edits to the analysis. Edits made through `commit` are recorded;
+ * other updates (translation, switching tracks) are not. Binds Ctrl+Z / Ctrl+Shift+Z
+ * (and Ctrl+Y) outside text fields, which keep their native undo.
+ *
+ * @param applyEffects Applies a command's changes to state outside the analysis
+ *   (voice map, takes); called when it is committed, undone or redone
+ */
+export const useEditHistory = (
+  analysis: VideoAnalysisResult | null,
+  setAnalysis: React.Dispatch<React.SetStateAction<VideoAnalysisResult | null>>,
+  applyEffects?: (command: EditCommand, direction: HistoryDirection) => void
+) => {
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  // Refs let several edits in one tick (or rapid key repeats) see each other's results
+  const analysisRef = useRef(analysis);
+  analysisRef.current = analysis;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const applyEffectsRef = useRef(applyEffects);
+  applyEffectsRef.current = applyEffects;
+
+  const update = (nextAnalysis: VideoAnalysisResult, nextHistory: EditHistory) => {
+    analysisRef.current = nextAnalysis;
+    historyRef.current = nextHistory;
+    setAnalysis(nextAnalysis);
+    setHistory(nextHistory);
+  };
+
+  const commit = useCallback((
+    edit: (prev: VideoAnalysisResult) => VideoAnalysisResult,
+    label?: string,
+    effects?: CommandEffects
+  ) => {
+    const prev = analysisRef.current;
+    if (!prev) return;
+    const next = edit(prev);
+    const command = createCommand(prev, next, label, effects);
+    update(next, command ? pushCommand(historyRef.current, command) : historyRef.current);
+    if (command) applyEffectsRef.current?.(command, 'redo');
+  }, []);
+
+  const undo = useCallback(() => {
+    const current = analysisRef.current;
+    const { past, future } = historyRef.current;
+    const command = past[past.length - 1];
+    if (!current || !command) return;
+    update(applyCommand(current, command, 'undo'), { past: past.slice(0, -1), future: [command, ...future] });
+    applyEffectsRef.current?.(command, 'undo');
+  }, []);
+
+  const redo = useCallback(() => {
+    const current = analysisRef.current;
+    const { past, future } = historyRef.current;
+    const command = future[0];
+    if (!current || !command) return;
+    update(applyCommand(current, command, 'redo'), { past: [...past, command], future: future.slice(1) });
+    applyEffectsRef.current?.(command, 'redo');
+  }, []);
+
+  /**
+   * Undoes or redoes until `pastLength` commands remain applied.
+   */
+  const jumpTo = useCallback((pastLength: number) => {
+    while (historyRef.current.past.length > pastLength) undo();
+    while (historyRef.current.past.length < pastLength && historyRef.current.future.length > 0) redo();
+  }, [undo, redo]);
+
+  // Replaces the stack, e.g. when a new project is opened or a session resumed
+  const reset = useCallback((next: EditHistory = EMPTY_HISTORY) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [undo, redo]);
+
+  return {
+    history,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,85 @@
+import React, { useState, useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
+
+/**
+ * Current playback position, read and watched outside React state so that
+ * only the components that show it re-render while the video plays.
+ */
+export interface PlaybackClock {
+  get(): number;
+  // Called whenever the position changes; returns the unsubscribe function
+  subscribe(listener: () => void): () => void;
+}
+
+const createClock = () => {
+  let time = 0;
+  const listeners = new Set<() => void>();
+  const clock: PlaybackClock = {
+    get: () => time,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+  const set = (next: number) => {
+    if (next === time) return;
+    time = next;
+    listeners.forEach(listener => listener());
+  };
+  return { clock, set };
+};
+
+/**
+ * Shared transport between the video preview and the timeline.
+ * The video element is the clock: while it plays, the current time is sampled
+ * every animation frame so the playhead moves smoothly (timeupdate only fires
+ * a few times per second). Without a video (demo data), seeking still moves
+ * the playhead.
+ */
+export const usePlayback = () => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [{ clock, set: setCurrentTime }] = useState(createClock);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      if (videoRef.current) setCurrentTime(videoRef.current.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, setCurrentTime]);
+
+  const seek = useCallback((time: number) => {
+    const video = videoRef.current;
+    let target = Math.max(0, time);
+    if (video && Number.isFinite(video.duration)) target = Math.min(target, video.duration);
+    if (video) video.currentTime = target;
+    setCurrentTime(target);
+  }, [setCurrentTime]);
+
+  const syncTime = (e: React.SyntheticEvent<HTMLVideoElement>) => setCurrentTime(e.currentTarget.currentTime);
+
+  // Spread onto the <video> element
+  const videoProps = {
+    ref: videoRef,
+    onPlay: () => setIsPlaying(true),
+    onPause: () => setIsPlaying(false),
+    onEnded: () => setIsPlaying(false),
+    onSeeked: syncTime,
+    onTimeUpdate: syncTime,
+    onLoadedMetadata: syncTime,
+  };
+
+  return { clock, isPlaying, seek, videoProps, videoRef };
+};
+
+/**
+ * Re-renders the caller when `select(time)` changes. Selecting something coarse
+ * (the segment under the playhead, tenths of a second) keeps re-renders rare.
+ */
+export const usePlaybackTime = <T extends string | number | null = number>(
+  clock: PlaybackClock,
+  select: (time: number) => T = time => time as T
+): T => useSyncExternalStore(clock.subscribe, () => select(clock.get()));
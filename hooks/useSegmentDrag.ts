@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Segment } from '../types';
+import {
+  getSnapTargets,
+  findSnap,
+  snapSpan,
+  placeInLane,
+  clampResize,
+  roundTime,
+  MIN_SEGMENT_DURATION,
+} from '../utils/segmentTiming';
+
+export type SegmentDragMode = 'move' | 'start' | 'end';
+
+// Pointer travel below this is treated as a click
+const DRAG_THRESHOLD_PX = 4;
+const SNAP_THRESHOLD_PX = 8;
+
+interface SegmentDragOptions {
+  segments: Segment[];
+  duration: number;
+  pixelsPerSecond: number;
+  // Speaker lane under the pointer, or null when outside the lanes
+  getLaneAt: (clientY: number) => string | null;
+  // Timeline position under the pointer, in seconds
+  getTimeAt: (clientX: number) => number;
+  // Live update while dragging
+  onPreview: (segments: Segment[]) => void;
+  // Final update when the drag is released
+  onCommit: (segments: Segment[]) => void;
+  // Pointer released without dragging; `toggle` is set when Ctrl/Cmd/Shift was held
+  onClick: (segmentId: string, toggle: boolean) => void;
+  // A new segment was drawn on an empty part of a lane
+  onCreate: (speakerId: string, start: number, end: number) => void;
+}
+
+export interface DraftSegment {
+  speakerId: string;
+  start: number;
+  end: number;
+}
+
+interface DragState {
+  base: Segment[];
+  segment: Segment;
+  mode: SegmentDragMode;
+  originX: number;
+  originY: number;
+  active: boolean;
+  result: Segment;
+}
+
+const replaceSegment = (segments: Segment[], updated: Segment) =>
+  segments.map(s => (s.id === updated.id ? updated : s));
+
+/**
+ * Pointer handling for moving and resizing timeline segments.
+ * Snaps to ruler ticks and other segment edges (hold Alt to disable), prevents
+ * overlaps within a lane, and reassigns the speaker when dropped on another lane.
+ * Dragging on an empty part of a lane draws a new segment. Escape cancels a drag in progress.
+ */
+export const useSegmentDrag = (options: SegmentDragOptions) => {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const cleanupRef = useRef<(() => void) | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DraftSegment | null>(null);
+
+  useEffect(() => () => cleanupRef.current?.(), []);
+
+  const retime = (drag: DragState, event: PointerEvent): Segment | null => {
+    const { duration, pixelsPerSecond, getLaneAt } = optionsRef.current;
+    const { segment, base } = drag;
+    const delta = (event.clientX - drag.originX) / pixelsPerSecond;
+    const maxEnd = Math.max(duration, segment.end_time);
+    const targets = event.altKey ? [] : getSnapTargets(base, segment.id, duration);
+    const threshold = SNAP_THRESHOLD_PX / pixelsPerSecond;
+
+    if (drag.mode === 'move') {
+      const speakerId = getLaneAt(event.clientY) ?? segment.speaker_id;
+      const length = segment.end_time - segment.start_time;
+      const lane = base.filter(s => s.speaker_id === speakerId && s.id !== segment.id);
+      const start = snapSpan(segment.start_time + delta, length, targets, threshold);
+      const placed = placeInLane(lane, start, length, maxEnd);
+      if (placed === null) return null;
+      return {
+        ...segment,
+        speaker_id: speakerId,
+        start_time: roundTime(placed),
+        end_time: roundTime(placed + length),
+      };
+    }
+
+    const lane = base.filter(s => s.speaker_id === segment.speaker_id && s.id !== segment.id);
+    const raw = (drag.mode === 'start' ? segment.start_time : segment.end_time) + delta;
+    const time = roundTime(clampResize(lane, segment, drag.mode, findSnap(raw, targets, threshold) ?? raw, maxEnd));
+    return drag.mode === 'start' ? { ...segment, start_time: time } : { ...segment, end_time: time };
+  };
+
+  const listen = (
+    handleMove: (e: PointerEvent) => void,
+    finish: (commit: boolean) => void
+  ) => {
+    const handleUp = () => finish(true);
+    const handleCancel = () => finish(false);
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') finish(false);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleCancel);
+    window.addEventListener('keydown', handleKey);
+    cleanupRef.current = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleCancel);
+      window.removeEventListener('keydown', handleKey);
+      cleanupRef.current = null;
+    };
+  };
+
+  const beginDrag = useCallback((event: React.PointerEvent, segmentId: string, mode: SegmentDragMode) => {
+    if (event.button !== 0 || cleanupRef.current) return;
+    const base = optionsRef.current.segments;
+    const segment = base.find(s => s.id === segmentId);
+    if (!segment) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const toggle = event.ctrlKey || event.metaKey || event.shiftKey;
+    const drag: DragState = {
+      base,
+      segment,
+      mode,
+      originX: event.clientX,
+      originY: event.clientY,
+      active: false,
+      result: segment,
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      if (!drag.active) {
+        const dx = Math.abs(e.clientX - drag.originX);
+        const dy = Math.abs(e.clientY - drag.originY);
+        if (dx < DRAG_THRESHOLD_PX && dy < DRAG_THRESHOLD_PX) return;
+        drag.active = true;
+        setDraggingId(segmentId);
+      }
+      // Keep the last valid position when the lane has no room
+      const next = retime(drag, e);
+      if (!next) return;
+      drag.result = next;
+      optionsRef.current.onPreview(replaceSegment(drag.base, next));
+    };
+
+    const finish = (commit: boolean) => {
+      cleanupRef.current?.();
+      setDraggingId(null);
+      const { onClick, onCommit, onPreview } = optionsRef.current;
+      if (!drag.active) {
+        if (commit) onClick(segmentId, toggle);
+        return;
+      }
+      const { result } = drag;
+      const changed =
+        result.start_time !== segment.start_time ||
+        result.end_time !== segment.end_time ||
+        result.speaker_id !== segment.speaker_id;
+      if (commit && changed) {
+        onCommit(replaceSegment(drag.base, result));
+      } else {
+        onPreview(drag.base);
+      }
+    };
+
+    listen(handleMove, finish);
+  }, []);
+
+  /**
+   * Starts drawing a new segment from an empty point of a lane. The draft is
+   * bounded by the lane's neighbouring segments.
+   */
+  const beginCreate = useCallback((event: React.PointerEvent, speakerId: string) => {
+    if (event.button !== 0 || cleanupRef.current) return;
+    const { segments, duration, getTimeAt } = optionsRef.current;
+    const anchor = Math.min(Math.max(getTimeAt(event.clientX), 0), duration);
+    const lane = segments.filter(s => s.speaker_id === speakerId);
+    if (lane.some(s => anchor > s.start_time && anchor < s.end_time)) return;
+    event.preventDefault();
+
+    const floor = Math.max(0, ...lane.filter(s => s.end_time <= anchor).map(s => s.end_time));
+    const ceiling = Math.min(duration, ...lane.filter(s => s.start_time >= anchor).map(s => s.start_time));
+    let current: DraftSegment | null = null;
+
+    const handleMove = (e: PointerEvent) => {
+      const { pixelsPerSecond } = optionsRef.current;
+      const targets = e.altKey ? [] : getSnapTargets(segments, '', duration);
+      const raw = getTimeAt(e.clientX);
+      const time = Math.min(Math.max(findSnap(raw, targets, SNAP_THRESHOLD_PX / pixelsPerSecond) ?? raw, floor), ceiling);
+      current = {
+        speakerId,
+        start: roundTime(Math.min(anchor, time)),
+        end: roundTime(Math.max(anchor, time)),
+      };
+      setDraft(current);
+    };
+
+    const finish = (commit: boolean) => {
+      cleanupRef.current?.();
+      setDraft(null);
+      if (commit && current && current.end - current.start >= MIN_SEGMENT_DURATION) {
+        optionsRef.current.onCreate(current.speakerId, current.start, current.end);
+      }
+    };
+
+    listen(handleMove, finish);
+  }, []);
+
+  return { beginDrag, beginCreate, draggingId, draft };
+};
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { VoiceLibrary, LibraryVoice, toStockVoice } from '../services/VoiceLibrary';
+import { VoiceManager } from '../services/VoiceManager';
+
+/**
+ * Loads the saved voice library once and keeps it in sync with saves, updates and deletions.
+ * `voices` lists saved voices first, then the stock voices of every configured provider.
+ */
+export const useVoiceLibrary = () => {
+  const [saved, setSaved] = useState<LibraryVoice[]>([]);
+  const [stock, setStock] = useState<LibraryVoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadStock = Promise.all(
+      VoiceManager.listProviders()
+        .filter(provider => provider.isConfigured())
+        .map(provider => provider.listVoices()
+          .then(voices => voices.map(voice => toStockVoice(provider.id, voice)))
+          .catch(error => {
+            console.error(`Could not list ${provider.label} voices:`, error);
+            return [];
+          }))
+    ).then(lists => {
+      if (!cancelled) setStock(lists.flat());
+    });
+    const loadSaved = VoiceLibrary.list()
+      .then(voices => {
+        if (!cancelled) setSaved(voices);
+      })
+      .catch(error => console.error("Could not load the voice library:", error));
+    Promise.all([loadStock, loadSaved]).finally(() => {
+      if (!cancelled) setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const saveVoice = useCallback(async (voice: Omit<LibraryVoice, 'id' | 'created_at' | 'stock'>) => {
+    const entry = await VoiceLibrary.save(voice);
+    setSaved(prev => [entry, ...prev]);
+    return entry;
+  }, []);
+
+  const updateVoice = useCallback(async (voice: LibraryVoice) => {
+    const entry = await VoiceLibrary.update(voice);
+    setSaved(prev => prev.map(v => (v.id === entry.id ? entry : v)));
+    return entry;
+  }, []);
+
+  const removeVoice = useCallback(async (id: string) => {
+    await VoiceLibrary.remove(id);
+    setSaved(prev => prev.filter(v => v.id !== id));
+  }, []);
+
+  return {
+    voices: [...saved, ...stock],
+    isLoading,
+    saveVoice,
+    updateVoice,
+    removeVoice,
+  };
+};
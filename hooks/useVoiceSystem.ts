@@ -1,7 +1,9 @@
-import { useState, useEffect, useCallback } from 'react';
-import { VideoAnalysisResult } from '../types';
-import { extractAudioClip } from '../utils/audioUtils';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Speaker, VideoAnalysisResult } from '../types';
+import { SourceAudioCache } from '../services/SourceAudioCache';
+import { VoiceReference } from '../utils/voiceReference';
 import { VoiceManager } from '../services/VoiceManager';
+import { ProviderId, SpeechOptions, VoiceRef } from '../services/VoiceProvider';
 
 interface VoiceSystemState {
   isReady: boolean;
@@ -9,6 +11,9 @@ interface VoiceSystemState {
   speakerStatus: Record<string, 'PENDING' | 'CLONED' | 'FAILED'>;
 }
 
+const providerFor = (analysis: VideoAnalysisResult, speaker: Speaker): ProviderId =>
+  VoiceManager.resolveProviderId(speaker.voice_provider, analysis.voice_provider);
+
 export const useVoiceSystem = (
   videoFile: File | null,
   analysisResult: VideoAnalysisResult | null
@@ -19,45 +24,88 @@ export const useVoiceSystem = (
     speakerStatus: {},
   });
 
-  // Main Pipeline: When analysis completes, register voices
+  // Cloning only depends on which speakers exist, their providers and which segments they own;
+  // text and timing edits must not restart it
+  const voiceKey = useMemo(() => analysisResult
+    ? JSON.stringify([
+        analysisResult.speakers.map(s => [s.id, providerFor(analysisResult, s)]),
+        analysisResult.segments.map(s => [s.id, s.speaker_id]),
+      ])
+    : null,
+  [analysisResult]);
+  const analysisRef = useRef(analysisResult);
+  analysisRef.current = analysisResult;
+  // Segment each voice was cloned from; the voice is dropped if that segment moves to another speaker
+  const samplesRef = useRef<Record<string, string>>({});
+  // Clip each voice was cloned from in this session, so it can be saved to the voice library
+  const referencesRef = useRef<Record<string, Blob>>({});
+  // Runs are chained so two passes never clone the same speaker concurrently
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Samples and clips describe the previous video's audio
   useEffect(() => {
-    if (!analysisResult) {
+    samplesRef.current = {};
+    referencesRef.current = {};
+  }, [videoFile]);
+
+  // Main Pipeline: When analysis completes or speakers change, register missing voices
+  useEffect(() => {
+    if (!voiceKey) {
+      samplesRef.current = {};
+      referencesRef.current = {};
       setState(prev => ({ ...prev, isReady: false, progress: '' }));
       return;
     }
 
+    let cancelled = false;
+
     const initializeVoices = async () => {
-      const speakers = analysisResult.speakers;
-      const initialStatus: Record<string, 'PENDING'> = {};
-      speakers.forEach(s => (initialStatus[s.id] = 'PENDING'));
-      
-      setState({
-        isReady: false,
-        progress: 'Preparing to clone voices...',
-        speakerStatus: initialStatus
+      const analysis = analysisRef.current;
+      if (cancelled || !analysis) return;
+      const speakers = analysis.speakers;
+
+      Object.entries(samplesRef.current).forEach(([speakerId, segmentId]) => {
+        const sample = analysis.segments.find(s => s.id === segmentId);
+        if (sample && sample.speaker_id !== speakerId) {
+          VoiceManager.removeVoice(speakerId);
+          delete samplesRef.current[speakerId];
+        }
       });
 
-      // MOCK DATA MODE: If no video file, just simulate success
+      // 0. Speakers that already have a voice on their provider (e.g. restored from a project) are skipped
+      const hasVoice = (speaker: Speaker) => VoiceManager.getVoice(speaker.id)?.provider === providerFor(analysis, speaker);
+
+      // DEMO MODE: Without a video there is nothing to clone from; use the providers' stock voices
       if (!videoFile) {
-        await new Promise(r => setTimeout(r, 1000));
-        const mockStatus: Record<string, 'CLONED'> = {};
-        speakers.forEach(s => {
-          // Register a mock mapping in the manager so TTS works
-          VoiceManager['voiceMap'].set(s.id, `mock_voice_${s.id}`); 
-          mockStatus[s.id] = 'CLONED';
-        });
+        setState(prev => ({ ...prev, isReady: false, progress: 'Preparing demo voices...' }));
+        const demoStatus: Record<string, 'CLONED' | 'FAILED'> = {};
+        for (const [index, speaker] of speakers.entries()) {
+          if (!hasVoice(speaker)) {
+            const providerId = providerFor(analysis, speaker);
+            try {
+              const stock = await VoiceManager.getProvider(providerId).listVoices();
+              if (stock.length === 0) throw new Error("Provider has no stock voices");
+              VoiceManager.setVoice(speaker.id, { provider: providerId, voiceId: stock[index % stock.length].voice_id });
+            } catch (error) {
+              console.error(`No demo voice for ${speaker.id}`, error);
+            }
+          }
+          demoStatus[speaker.id] = hasVoice(speaker) ? 'CLONED' : 'FAILED';
+        }
+        if (cancelled) return;
         setState({
           isReady: true,
-          progress: 'Demo voices ready (Mock Mode)',
-          speakerStatus: mockStatus
+          progress: 'Demo voices ready',
+          speakerStatus: demoStatus
         });
         return;
       }
 
       // REAL MODE: Extract and Clone
+
       // 1. Identify best segments for each speaker (Longest segment)
-      const cloningQueue = speakers.map(speaker => {
-        const speakerSegments = analysisResult.segments.filter(s => s.speaker_id === speaker.id);
+      const cloningQueue = speakers.filter(s => !hasVoice(s)).map(speaker => {
+        const speakerSegments = analysis.segments.filter(s => s.speaker_id === speaker.id);
         if (speakerSegments.length === 0) return null;
 
         // Find the longest segment to get the best sample
@@ -70,12 +118,28 @@ export const useVoiceSystem = (
         return { speaker, segment: bestSegment };
       }).filter(item => item !== null);
 
+      const speakerStatus: Record<string, 'PENDING' | 'CLONED'> = {};
+      speakers.forEach(s => (speakerStatus[s.id] = hasVoice(s) ? 'CLONED' : 'PENDING'));
+
+      if (cloningQueue.length === 0) {
+        setState(prev => ({ ...prev, isReady: true, speakerStatus }));
+        return;
+      }
+      setState({
+        isReady: false,
+        progress: 'Preparing to clone voices...',
+        speakerStatus
+      });
+
       // 2. Process Queue
       let completedCount = 0;
+      const failures: string[] = [];
       const total = cloningQueue.length;
 
       for (const item of cloningQueue) {
         if (!item) continue;
+        // A newer pass takes over with the latest speakers
+        if (cancelled) return;
         const { speaker, segment } = item;
 
         try {
@@ -84,15 +148,15 @@ export const useVoiceSystem = (
             progress: `Cloning voice for ${speaker.name} (${completedCount + 1}/${total})...`
           }));
 
-          // A. Extract Audio
-          const audioBlob = await extractAudioClip(
-            videoFile, 
-            segment.start_time, 
-            segment.end_time
-          );
+          // A. Extract Audio (the soundtrack is decoded once and shared by all speakers)
+          const audioBlob = await SourceAudioCache.extractRanges(videoFile, [
+            { start: segment.start_time, end: segment.end_time },
+          ]);
 
           // B. Register with Service
-          await VoiceManager.registerVoice(speaker.id, audioBlob);
+          await VoiceManager.registerVoice(speaker.id, audioBlob, providerFor(analysis, speaker));
+          samplesRef.current[speaker.id] = segment.id;
+          referencesRef.current[speaker.id] = audioBlob;
 
           // Update Status
           setState(prev => ({
@@ -100,8 +164,9 @@ export const useVoiceSystem = (
             speakerStatus: { ...prev.speakerStatus, [speaker.id]: 'CLONED' }
           }));
 
-        } catch (error) {
+        } catch (error: any) {
           console.error(`Failed to clone voice for ${speaker.id}`, error);
+          failures.push(`${speaker.name}: ${error?.message || 'cloning failed'}`);
           setState(prev => ({
             ...prev,
             speakerStatus: { ...prev.speakerStatus, [speaker.id]: 'FAILED' }
@@ -113,30 +178,107 @@ export const useVoiceSystem = (
       setState(prev => ({
         ...prev,
         isReady: true,
-        progress: 'Voice cloning complete.',
+        // e.g. the speaker's provider has no API key
+        progress: failures.length > 0 ? `Could not clone ${failures.join('; ')}` : 'Voice cloning complete.',
       }));
     };
 
-    initializeVoices();
-  }, [videoFile, analysisResult]);
+    queueRef.current = queueRef.current
+      .then(initializeVoices)
+      .catch(error => console.error("Voice initialization failed:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [videoFile, voiceKey]);
+
+  /**
+   * Re-clones one speaker's voice from a chosen reference: selected (and trimmed)
+   * segments of the source video, or an uploaded recording.
+   */
+  const cloneFromReference = useCallback((speakerId: string, reference: VoiceReference): Promise<void> => {
+    const run = async () => {
+      setState(prev => ({
+        ...prev,
+        speakerStatus: { ...prev.speakerStatus, [speakerId]: 'PENDING' }
+      }));
+      try {
+        const speaker = analysisRef.current?.speakers.find(s => s.id === speakerId);
+        const providerId = VoiceManager.resolveProviderId(speaker?.voice_provider, analysisRef.current?.voice_provider);
+        let audioBlob: Blob;
+        if (reference.kind === 'file') {
+          audioBlob = reference.file;
+        } else if (videoFile) {
+          audioBlob = await SourceAudioCache.extractRanges(videoFile, reference.ranges);
+        } else if (providerId === 'local') {
+          // Demo data has no source audio; the local provider derives a voice from the speaker alone
+          audioBlob = new Blob([], { type: 'audio/wav' });
+        } else {
+          throw new Error("Link the source video to clone from its segments.");
+        }
+
+        await VoiceManager.registerVoice(speakerId, audioBlob, providerId);
+        // A hand-picked reference is kept even if its segments are reassigned later
+        delete samplesRef.current[speakerId];
+        referencesRef.current[speakerId] = audioBlob;
+        setState(prev => ({
+          ...prev,
+          speakerStatus: { ...prev.speakerStatus, [speakerId]: 'CLONED' }
+        }));
+      } catch (error) {
+        console.error(`Failed to clone voice for ${speakerId}`, error);
+        setState(prev => ({
+          ...prev,
+          speakerStatus: { ...prev.speakerStatus, [speakerId]: 'FAILED' }
+        }));
+        throw error;
+      }
+    };
+
+    // Queued behind any automatic pass so the two never clone the same speaker at once
+    const result = queueRef.current.then(run);
+    queueRef.current = result.catch(() => {});
+    return result;
+  }, [videoFile]);
+
+  /**
+   * Gives a speaker an existing voice (from the voice library) instead of cloning one.
+   */
+  const assignVoice = useCallback((speakerId: string, voice: VoiceRef, reference?: Blob) => {
+    VoiceManager.setVoice(speakerId, voice);
+    delete samplesRef.current[speakerId];
+    if (reference) {
+      referencesRef.current[speakerId] = reference;
+    } else {
+      delete referencesRef.current[speakerId];
+    }
+    setState(prev => ({
+      ...prev,
+      speakerStatus: { ...prev.speakerStatus, [speakerId]: 'CLONED' }
+    }));
+  }, []);
+
+  const getReferenceClip = useCallback((speakerId: string): Blob | undefined => referencesRef.current[speakerId], []);
 
   /**
    * Synthesizes new audio for a specific text.
    */
-  const synthesizeSegment = useCallback(async (speakerId: string, text: string): Promise<string> => {
+  const synthesizeSegment = useCallback(async (speakerId: string, text: string, options?: SpeechOptions): Promise<string> => {
     // If in mock mode (no file), we allow it even if status check might fail strictly
     if (!videoFile) {
-        return await VoiceManager.generateSpeech(text, speakerId);
+        return await VoiceManager.generateSpeech(text, speakerId, options);
     }
 
     if (!state.speakerStatus[speakerId] || state.speakerStatus[speakerId] === 'FAILED') {
       throw new Error("Voice not available for this speaker.");
     }
-    return await VoiceManager.generateSpeech(text, speakerId);
+    return await VoiceManager.generateSpeech(text, speakerId, options);
   }, [state.speakerStatus, videoFile]);
 
   return {
     ...state,
-    synthesizeSegment
+    synthesizeSegment,
+    cloneFromReference,
+    assignVoice,
+    getReferenceClip
   };
 };
\ No newline at end of file
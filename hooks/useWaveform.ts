@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { extractWaveform, WaveformData } from '../services/WaveformExtractor';
+
+/**
+ * Extracts the waveform of the source video in the background.
+ * Returns null while decoding, without a video, or when the soundtrack can't be decoded.
+ */
+export const useWaveform = (videoFile: File | null) => {
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setWaveform(null);
+    if (!videoFile) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    extractWaveform(videoFile)
+      .then(data => {
+        if (!cancelled) setWaveform(data);
+      })
+      .catch(error => console.error("Waveform extraction failed:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoFile]);
+
+  return { waveform, isLoading };
+};
@@ -0,0 +1,57 @@
+/**
+ * AnalysisProvider.ts
+ * Common interface for the backends that turn a video into speakers and
+ * timed segments, plus the settings used to pick and tune one.
+ */
+import { Segment } from '../types';
+import type { ValidatedAnalysis } from './AnalysisValidator';
+
+export type AnalysisProviderId = 'gemini' | 'http';
+
+export interface AnalyzeOptions {
+  // Existing transcript; when given, the backend only attributes speakers
+  transcript?: Segment[];
+  // Status updates for long-running analyses (uploading, parts done)
+  onProgress?: (message: string) => void;
+  // Cancels the analysis; it then rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface AnalysisSettings {
+  provider: AnalysisProviderId;
+  // Gemini model name and sampling temperature
+  model: string;
+  temperature: number;
+  // URL the HTTP provider posts the media to
+  endpoint: string;
+}
+
+export const GEMINI_MODELS = ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash'];
+
+export const ANALYSIS_PROVIDER_LABELS: Record<AnalysisProviderId, string> = {
+  gemini: 'Gemini',
+  http: 'Self-hosted server',
+};
+
+// A configured endpoint means the team runs analysis on-prem, so it becomes the default
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  provider: process.env.ANALYSIS_ENDPOINT ? 'http' : 'gemini',
+  model: process.env.GEMINI_MODEL || GEMINI_MODELS[0],
+  temperature: 0.1, // Low temperature for factual transcription
+  endpoint: process.env.ANALYSIS_ENDPOINT || '',
+};
+
+export interface AnalysisProvider {
+  readonly id: AnalysisProviderId;
+  readonly label: string;
+  // False when credentials or the endpoint are missing
+  isConfigured(): boolean;
+  // Output is checked and repaired with validateAnalysis before it is returned
+  analyze(file: File, options: AnalyzeOptions): Promise<ValidatedAnalysis>;
+}
+
+/**
+ * Short description of the backend for progress messages, e.g. "gemini-2.5-pro".
+ */
+export const describeAnalysisSettings = (settings: AnalysisSettings): string =>
+  settings.provider === 'gemini' ? settings.model : settings.endpoint || ANALYSIS_PROVIDER_LABELS.http;
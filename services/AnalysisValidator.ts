@@ -0,0 +1,346 @@
+/**
+ * AnalysisValidator.ts
+ * Checks analysis output from a model or server against the
+ * VideoAnalysisResult schema and the timeline's invariants, repairs what can
+ * be fixed without guessing, and reports everything it touched. Project
+ * fields (voice settings, providers, dubbing tracks) are checked and kept, so
+ * imported projects go through the same checks.
+ */
+import { DubTrack, Segment, Speaker, VideoAnalysisResult, VoiceEmotion, VoiceSettings } from '../types';
+import { SPEECH_EMOTIONS } from './VoiceProvider';
+
+export type AnalysisWarningAction =
+  | 'repaired' // fixed automatically
+  | 'removed' // dropped, nothing usable was left
+  | 'review'; // kept as-is; needs a human look
+
+export interface AnalysisWarning {
+  action: AnalysisWarningAction;
+  message: string;
+  segmentId?: string;
+  // Where to look on the timeline
+  time?: number;
+}
+
+export interface ValidatedAnalysis {
+  result: VideoAnalysisResult;
+  warnings: AnalysisWarning[];
+}
+
+/**
+ * Output that cannot be repaired (not an object, or no segments at all).
+ */
+export class AnalysisValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+export interface ValidateOptions {
+  // Duration read from the media itself; more reliable than the model's
+  mediaDuration?: number;
+}
+
+// Shorter segments can't be edited or dubbed
+const MIN_SEGMENT_SECONDS = 0.1;
+const UNKNOWN_SPEAKER_NAME = 'Unknown speaker';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Numbers sometimes come back as strings ("12.5")
+const toNumber = (value: unknown): number | null => {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const toText = (value: unknown): string | null =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : null;
+
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const uniqueId = (prefix: string, taken: Set<string>): string => {
+  let n = taken.size + 1;
+  while (taken.has(`${prefix}_${n}`)) n++;
+  return `${prefix}_${n}`;
+};
+
+/**
+ * Keeps the well-formed fields of a voice settings object; undefined when none are.
+ */
+const toVoiceSettings = (raw: unknown, owner: string, warnings: AnalysisWarning[]): VoiceSettings | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) {
+    warnings.push({ action: 'removed', message: `${owner} had invalid voice settings.` });
+    return undefined;
+  }
+  const settings: VoiceSettings = {};
+  (['speed', 'volume', 'pitch'] as const).forEach(key => {
+    if (raw[key] === undefined) return;
+    const value = toNumber(raw[key]);
+    if (value === null) {
+      warnings.push({ action: 'removed', message: `${owner} had an invalid ${key} setting.` });
+    } else {
+      settings[key] = value;
+    }
+  });
+  if (raw.emotion !== undefined) {
+    if (SPEECH_EMOTIONS.includes(raw.emotion as VoiceEmotion)) {
+      settings.emotion = raw.emotion as VoiceEmotion;
+    } else {
+      warnings.push({ action: 'removed', message: `${owner} had an unknown emotion "${String(raw.emotion)}".` });
+    }
+  }
+  return Object.keys(settings).length > 0 ? settings : undefined;
+};
+
+/**
+ * Dubbing tracks, keeping only texts of segments that exist.
+ */
+const validateTracks = (raw: unknown, segmentIds: Set<string>, warnings: AnalysisWarning[]): DubTrack[] | undefined => {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    warnings.push({ action: 'removed', message: 'The dubbing tracks were not a list and were dropped.' });
+    return undefined;
+  }
+  const tracks: DubTrack[] = [];
+  raw.forEach((item, index) => {
+    const language = isRecord(item) ? toText(item.language)?.trim() : '';
+    if (!isRecord(item) || !language || !isRecord(item.texts)) {
+      warnings.push({ action: 'removed', message: `Dubbing track #${index + 1} was malformed.` });
+      return;
+    }
+    if (tracks.some(t => t.language === language)) {
+      warnings.push({ action: 'removed', message: `The "${language}" track was listed twice; the first was kept.` });
+      return;
+    }
+    const texts: Record<string, string> = {};
+    let dropped = 0;
+    Object.entries(item.texts).forEach(([segmentId, text]) => {
+      if (segmentIds.has(segmentId) && typeof text === 'string') {
+        texts[segmentId] = text;
+      } else {
+        dropped++;
+      }
+    });
+    if (dropped > 0) {
+      warnings.push({ action: 'removed', message: `${dropped} text(s) of the "${language}" track did not match a segment.` });
+    }
+    tracks.push({ language, texts });
+  });
+  return tracks;
+};
+
+const validateSpeakers = (raw: unknown, warnings: AnalysisWarning[]): Speaker[] => {
+  if (!Array.isArray(raw)) {
+    warnings.push({ action: 'repaired', message: 'The speaker list was missing; speakers were rebuilt from the segments.' });
+    return [];
+  }
+  const speakers: Speaker[] = [];
+  const ids = new Set<string>();
+  raw.forEach((item, index) => {
+    if (!isRecord(item)) {
+      warnings.push({ action: 'removed', message: `Speaker #${index + 1} was not an object.` });
+      return;
+    }
+    let id = toText(item.id)?.trim() || '';
+    if (!id) {
+      id = uniqueId('spk', ids);
+      warnings.push({ action: 'repaired', message: `Speaker #${index + 1} had no ID and was given "${id}".` });
+    } else if (ids.has(id)) {
+      warnings.push({ action: 'removed', message: `Speaker "${id}" was listed twice; the first entry was kept.` });
+      return;
+    }
+    ids.add(id);
+    const voiceSettings = toVoiceSettings(item.voice_settings, `Speaker "${id}"`, warnings);
+    const voiceProvider = toText(item.voice_provider)?.trim();
+    speakers.push({
+      id,
+      name: toText(item.name)?.trim() || id,
+      voice_tone: toText(item.voice_tone)?.trim() || '',
+      ...(voiceSettings ? { voice_settings: voiceSettings } : {}),
+      ...(voiceProvider ? { voice_provider: voiceProvider } : {}),
+    });
+  });
+  return speakers;
+};
+
+/**
+ * Joins warning lists from several checks, in timeline order.
+ */
+export const mergeWarnings = (...lists: AnalysisWarning[][]): AnalysisWarning[] =>
+  lists.flat().sort((a, b) => (a.time ?? -1) - (b.time ?? -1));
+
+/**
+ * Validates and repairs analysis output. Warnings are listed in timeline order
+ * where they concern a segment.
+ *
+ * @throws AnalysisValidationError when there is nothing usable to repair
+ */
+export const validateAnalysis = (raw: unknown, options: ValidateOptions = {}): ValidatedAnalysis => {
+  if (!isRecord(raw)) {
+    throw new AnalysisValidationError("The analysis output is not a JSON object.");
+  }
+  if (!Array.isArray(raw.segments)) {
+    throw new AnalysisValidationError("The analysis output has no segments.");
+  }
+
+  const warnings: AnalysisWarning[] = [];
+  const metadata = isRecord(raw.metadata) ? raw.metadata : {};
+  if (!isRecord(raw.metadata)) {
+    warnings.push({ action: 'repaired', message: 'The metadata was missing; duration and language were filled in.' });
+  }
+  const speakers = validateSpeakers(raw.speakers, warnings);
+  const speakerIds = new Set(speakers.map(s => s.id));
+
+  // 1. Per-segment schema and timing
+  const segmentIds = new Set<string>();
+  let segments: Segment[] = [];
+  raw.segments.forEach((item, index) => {
+    const label = `Segment #${index + 1}`;
+    if (!isRecord(item)) {
+      warnings.push({ action: 'removed', message: `${label} was not an object.` });
+      return;
+    }
+    let start = toNumber(item.start_time);
+    let end = toNumber(item.end_time);
+    const text = toText(item.text) ?? '';
+    if (start === null || end === null) {
+      warnings.push({ action: 'removed', message: `${label} had no valid start or end time.` });
+      return;
+    }
+    if (end < start) {
+      [start, end] = [end, start];
+      warnings.push({ action: 'repaired', message: `${label} ended before it started; its times were swapped.`, time: start });
+    }
+    if (start < 0) {
+      warnings.push({ action: 'repaired', message: `${label} started before 0s and was clipped.`, time: 0 });
+      start = 0;
+      end = Math.max(end, 0);
+    }
+    if (end - start < MIN_SEGMENT_SECONDS) {
+      warnings.push({ action: 'removed', message: `${label} had no length.`, time: start });
+      return;
+    }
+
+    let id = toText(item.id)?.trim() || '';
+    if (!id || segmentIds.has(id)) {
+      const newId = uniqueId('seg', segmentIds);
+      warnings.push({
+        action: 'repaired',
+        message: id ? `Segment ID "${id}" was used twice; the copy was renamed "${newId}".` : `${label} had no ID and was given "${newId}".`,
+        segmentId: newId,
+        time: start,
+      });
+      id = newId;
+    }
+    segmentIds.add(id);
+
+    let speakerId = toText(item.speaker_id)?.trim() || '';
+    if (!speakerIds.has(speakerId)) {
+      if (speakerId) {
+        // A label the speaker list forgot: keep it as its own speaker
+        speakers.push({ id: speakerId, name: speakerId, voice_tone: '' });
+        warnings.push({ action: 'review', message: `Speaker "${speakerId}" was not in the speaker list and was added.`, segmentId: id, time: start });
+      } else {
+        let unknown = speakers.find(s => s.name === UNKNOWN_SPEAKER_NAME);
+        if (!unknown) {
+          unknown = { id: uniqueId('spk', speakerIds), name: UNKNOWN_SPEAKER_NAME, voice_tone: '' };
+          speakers.push(unknown);
+        }
+        speakerId = unknown.id;
+        warnings.push({ action: 'review', message: `${label} had no speaker and was assigned to "${UNKNOWN_SPEAKER_NAME}".`, segmentId: id, time: start });
+      }
+      speakerIds.add(speakerId);
+    }
+
+    if (!text.trim()) {
+      warnings.push({ action: 'review', message: `Segment "${id}" has no text.`, segmentId: id, time: start });
+    }
+    // Explicitly neutral values are kept: they override the speaker's defaults
+    const voiceSettings = toVoiceSettings(item.voice_settings, `Segment "${id}"`, warnings);
+    segments.push({
+      id,
+      speaker_id: speakerId,
+      start_time: start,
+      end_time: end,
+      text,
+      ...(voiceSettings ? { voice_settings: voiceSettings } : {}),
+    });
+  });
+
+  if (segments.some((s, i) => i > 0 && s.start_time < segments[i - 1].start_time)) {
+    warnings.push({ action: 'repaired', message: 'Segments were out of order and have been sorted by start time.' });
+    segments.sort((a, b) => a.start_time - b.start_time);
+  }
+
+  // 2. Duration: the media's own length wins; otherwise the model's, grown to fit the segments
+  const latestEnd = Math.max(0, ...segments.map(s => s.end_time));
+  let duration = toNumber(metadata.total_duration) ?? 0;
+  if (options.mediaDuration && options.mediaDuration > 0) {
+    duration = options.mediaDuration;
+    segments = segments.flatMap(s => {
+      if (s.start_time >= duration - MIN_SEGMENT_SECONDS) {
+        warnings.push({ action: 'removed', message: `Segment "${s.id}" starts after the end of the video.`, time: duration });
+        return [];
+      }
+      if (s.end_time > duration) {
+        warnings.push({ action: 'repaired', message: `Segment "${s.id}" ran past the end of the video and was shortened.`, segmentId: s.id, time: s.start_time });
+        return [{ ...s, end_time: duration }];
+      }
+      return [s];
+    });
+  } else if (latestEnd > duration) {
+    if (duration > 0) {
+      warnings.push({ action: 'repaired', message: `The reported duration (${duration.toFixed(1)}s) was shorter than the last segment and was extended.` });
+    }
+    duration = latestEnd;
+  }
+
+  // 3. One speaker can't say two things at once
+  const lastBySpeaker = new Map<string, number>();
+  const removed = new Set<number>();
+  segments.forEach((segment, index) => {
+    const previousIndex = lastBySpeaker.get(segment.speaker_id);
+    lastBySpeaker.set(segment.speaker_id, index);
+    if (previousIndex === undefined) return;
+    const previous = segments[previousIndex];
+    if (segment.start_time >= previous.end_time) return;
+
+    if (normalizeText(segment.text) === normalizeText(previous.text)) {
+      removed.add(index);
+      lastBySpeaker.set(segment.speaker_id, previousIndex);
+      warnings.push({ action: 'removed', message: `Segment "${segment.id}" repeated "${previous.id}" and was removed.`, segmentId: previous.id, time: previous.start_time });
+    } else if (segment.start_time - previous.start_time >= MIN_SEGMENT_SECONDS) {
+      segments[previousIndex] = { ...previous, end_time: segment.start_time };
+      warnings.push({ action: 'repaired', message: `Segment "${previous.id}" overlapped the same speaker's next segment and was shortened.`, segmentId: previous.id, time: previous.start_time });
+    } else {
+      warnings.push({ action: 'review', message: `Segments "${previous.id}" and "${segment.id}" start together with the same speaker.`, segmentId: segment.id, time: segment.start_time });
+    }
+  });
+  segments = segments.filter((_, index) => !removed.has(index));
+
+  // 4. Project fields
+  const tracks = validateTracks(raw.tracks, new Set(segments.map(s => s.id)), warnings);
+  let activeTrack = toText(raw.active_track)?.trim() || undefined;
+  if (activeTrack && !tracks?.some(t => t.language === activeTrack)) {
+    warnings.push({ action: 'repaired', message: `The active track "${activeTrack}" does not exist; the original language is shown.` });
+    activeTrack = undefined;
+  }
+  const voiceProvider = toText(raw.voice_provider)?.trim();
+
+  const result: VideoAnalysisResult = {
+    metadata: {
+      total_duration: duration,
+      detected_language: toText(metadata.detected_language)?.trim() || 'unknown',
+    },
+    speakers,
+    segments,
+    ...(tracks ? { tracks } : {}),
+    ...(activeTrack ? { active_track: activeTrack } : {}),
+    ...(voiceProvider ? { voice_provider: voiceProvider } : {}),
+  };
+  warnings.sort((a, b) => (a.time ?? -1) - (b.time ?? -1));
+  return { result, warnings };
+};
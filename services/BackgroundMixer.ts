@@ -0,0 +1,170 @@
+/**
+ * BackgroundMixer.ts
+ * Keeps music and effects from the original soundtrack under the dub, either
+ * by ducking the original around each spoken segment or by replacing it with
+ * a background stem from a (pluggable) vocal-removal stage.
+ */
+import { Segment } from '../types';
+import { SourceAudioCache } from './SourceAudioCache';
+
+export type MixMode = 'replace' | 'duck' | 'stem';
+
+export interface MixSettings {
+  mode: MixMode;
+  // Attenuation applied to the original while a segment is spoken
+  duckLevelDb: number;
+  attack: number; // seconds to reach the ducked level
+  release: number; // seconds to return to full level
+  // Overall level of the background bed (original or stem)
+  backgroundGain: number;
+}
+
+export const DEFAULT_MIX_SETTINGS: MixSettings = {
+  mode: 'replace',
+  duckLevelDb: -18,
+  attack: 0.08,
+  release: 0.35,
+  backgroundGain: 1,
+};
+
+export interface StemSeparator {
+  readonly name: string;
+  /**
+   * Returns the accompaniment (everything except vocals) at the input's
+   * sample rate and length.
+   */
+  separate(source: AudioBuffer): Promise<AudioBuffer>;
+}
+
+/**
+ * Classic karaoke trick: dialogue is usually mixed to the center, so L - R
+ * cancels it while keeping wide music and effects. Crude, but instant and offline.
+ */
+export class CenterChannelRemover implements StemSeparator {
+  readonly name = 'Center channel removal';
+
+  async separate(source: AudioBuffer): Promise<AudioBuffer> {
+    if (source.numberOfChannels < 2) {
+      throw new Error('Center channel removal needs a stereo soundtrack; use ducking for mono videos.');
+    }
+    const left = source.getChannelData(0);
+    const right = source.getChannelData(1);
+    const side = new Float32Array(source.length);
+    for (let i = 0; i < source.length; i++) {
+      side[i] = (left[i] - right[i]) * 0.5;
+    }
+
+    // The side signal is mono; stereo width is lost along with the vocals
+    const stem = new AudioBuffer({ numberOfChannels: 2, length: source.length, sampleRate: source.sampleRate });
+    stem.copyToChannel(side, 0);
+    stem.copyToChannel(side, 1);
+    return stem;
+  }
+}
+
+let activeSeparator: StemSeparator = new CenterChannelRemover();
+
+/**
+ * Swap the vocal-removal backend (e.g. a WASM or server-side source separation model).
+ */
+export const setStemSeparator = (separator: StemSeparator) => {
+  activeSeparator = separator;
+};
+
+export const getStemSeparator = () => activeSeparator;
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Merges segment intervals that are too close for the gain to recover in between.
+ */
+export const getDuckIntervals = (segments: Segment[], settings: MixSettings): [number, number][] => {
+  const gap = settings.attack + settings.release;
+  const sorted = segments
+    .filter(s => s.end_time > s.start_time)
+    .map(s => [s.start_time, s.end_time] as [number, number])
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  sorted.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start - last[1] <= gap) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+};
+
+/**
+ * Schedules ducking automation on a gain parameter: ramps down `attack` seconds
+ * before each interval, holds, and ramps back up over `release` after it.
+ */
+export const scheduleDucking = (
+  gain: AudioParam,
+  intervals: [number, number][],
+  settings: MixSettings,
+  offset = 0
+) => {
+  const full = settings.backgroundGain;
+  const ducked = full * dbToGain(settings.duckLevelDb);
+
+  gain.setValueAtTime(full, offset);
+  intervals.forEach(([start, end]) => {
+    const downAt = Math.max(0, start - settings.attack);
+    gain.setValueAtTime(full, offset + downAt);
+    gain.linearRampToValueAtTime(ducked, offset + start);
+    gain.setValueAtTime(ducked, offset + end);
+    gain.linearRampToValueAtTime(full, offset + end + settings.release);
+  });
+};
+
+/**
+ * Level of the ducked original at a point in time: the envelope scheduleDucking
+ * automates, evaluated directly (used by the live preview).
+ */
+export const duckGainAt = (time: number, intervals: [number, number][], settings: MixSettings): number => {
+  let depth = 0; // 0 = full level, 1 = fully ducked
+  for (const [start, end] of intervals) {
+    if (time >= start && time <= end) {
+      depth = 1;
+    } else if (time < start && time >= start - settings.attack) {
+      depth = Math.max(depth, 1 - (start - time) / Math.max(settings.attack, 1e-3));
+    } else if (time > end && time < end + settings.release) {
+      depth = Math.max(depth, 1 - (time - end) / Math.max(settings.release, 1e-3));
+    }
+  }
+  const full = settings.backgroundGain;
+  return full - (full - full * dbToGain(settings.duckLevelDb)) * depth;
+};
+
+/**
+ * Prepares the background bed for a render and wires it into the context.
+ * The soundtrack comes from SourceAudioCache, so it is decoded once per video
+ * rather than once per render.
+ */
+export const connectBackground = async (
+  ctx: BaseAudioContext,
+  videoFile: File,
+  segments: Segment[],
+  settings: MixSettings
+): Promise<void> => {
+  if (settings.mode === 'replace') return;
+
+  const original = await SourceAudioCache.getBed(videoFile, ctx.sampleRate);
+  const bed = settings.mode === 'stem' ? await activeSeparator.separate(original) : original;
+
+  const source = ctx.createBufferSource();
+  source.buffer = bed;
+  const gain = ctx.createGain();
+
+  if (settings.mode === 'duck') {
+    scheduleDucking(gain.gain, getDuckIntervals(segments, settings), settings);
+  } else {
+    gain.gain.value = settings.backgroundGain;
+  }
+
+  source.connect(gain).connect(ctx.destination);
+  source.start(0);
+};
@@ -0,0 +1,165 @@
+/**
+ * DubPreview.ts
+ * Plays generated takes in sync with the video for live review. Takes are
+ * scheduled through Web Audio shortly before their start_time, using the video
+ * element's currentTime as the master clock.
+ */
+import { decodeTake } from './DubRenderer';
+
+export interface PreviewCue {
+  segmentId: string;
+  start: number;
+  end: number;
+  audioUrl: string;
+}
+
+// Takes are decoded this far ahead of the playhead...
+const DECODE_AHEAD = 10;
+// ...and handed to the audio clock this far ahead
+const SCHEDULE_AHEAD = 1.5;
+// Re-anchor when the audio and video clocks disagree by more than this (seeks, stalls)
+const MAX_DRIFT = 0.15;
+// Decoded takes kept for replay; least recently used ones are dropped beyond it
+const MAX_BUFFER_BYTES = 256 * 1024 * 1024;
+
+// Mock takes share one URL but decode to segment-length tones, so the segment is part of the key
+const bufferKey = (cue: PreviewCue) => `${cue.segmentId}|${cue.audioUrl}`;
+
+interface ScheduledTake {
+  source: AudioBufferSourceNode;
+  audioUrl: string;
+}
+
+export class DubPreviewPlayer {
+  private ctx: AudioContext | null = null;
+  private output: GainNode | null = null;
+  // Insertion order doubles as recency: entries are re-inserted on use
+  private buffers = new Map<string, AudioBuffer>();
+  private bufferBytes = 0;
+  private decoding = new Set<string>();
+  // Not retried, so a broken take doesn't fail on every tick
+  private undecodable = new Set<string>();
+  private scheduled = new Map<string, ScheduledTake>();
+  // Maps media time to context time while playing
+  private anchor: { mediaTime: number; contextTime: number } | null = null;
+  private level = 0;
+
+  private ensureContext(): AudioContext {
+    if (!this.ctx) {
+      this.ctx = new AudioContext();
+      this.output = this.ctx.createGain();
+      this.output.gain.value = this.level;
+      this.output.connect(this.ctx.destination);
+    }
+    return this.ctx;
+  }
+
+  /**
+   * Dub level (0 mutes). Scheduling continues while muted so switching back is instant.
+   */
+  setLevel(level: number) {
+    this.level = level;
+    if (this.output && this.ctx) this.output.gain.setValueAtTime(level, this.ctx.currentTime);
+  }
+
+  start(mediaTime: number) {
+    const ctx = this.ensureContext();
+    ctx.resume().catch(() => {});
+    this.stopScheduled();
+    this.anchor = { mediaTime, contextTime: ctx.currentTime };
+  }
+
+  stop() {
+    this.stopScheduled();
+    this.anchor = null;
+  }
+
+  /**
+   * Called on every playback tick: decodes upcoming takes and schedules the ones about to start.
+   */
+  update(mediaTime: number, cues: PreviewCue[]) {
+    const ctx = this.ctx;
+    if (!ctx || !this.anchor) return;
+
+    const expected = this.anchor.mediaTime + (ctx.currentTime - this.anchor.contextTime);
+    if (Math.abs(expected - mediaTime) > MAX_DRIFT) this.start(mediaTime);
+    const anchor = this.anchor!;
+
+    cues.forEach(cue => {
+      if (cue.start > mediaTime + DECODE_AHEAD) return;
+      const key = bufferKey(cue);
+      const buffer = this.buffers.get(key);
+      if (!buffer) {
+        if (cue.end > mediaTime) this.decode(ctx, cue);
+        return;
+      }
+      this.buffers.delete(key);
+      this.buffers.set(key, buffer);
+
+      const existing = this.scheduled.get(cue.segmentId);
+      if (existing?.audioUrl === cue.audioUrl) return;
+      // The take was regenerated: replace what was scheduled
+      if (existing) this.stopTake(cue.segmentId);
+
+      if (cue.start > mediaTime + SCHEDULE_AHEAD) return;
+      const offset = Math.max(0, mediaTime - cue.start);
+      if (offset >= buffer.duration) return;
+
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(this.output!);
+      const when = anchor.contextTime + (cue.start + offset - anchor.mediaTime);
+      source.start(Math.max(ctx.currentTime, when), offset);
+      // Entries stay until the next re-anchor so a finished take is not started again
+      this.scheduled.set(cue.segmentId, { source, audioUrl: cue.audioUrl });
+    });
+  }
+
+  dispose() {
+    this.stop();
+    this.buffers.clear();
+    this.bufferBytes = 0;
+    this.ctx?.close().catch(() => {});
+    this.ctx = null;
+    this.output = null;
+  }
+
+  private decode(ctx: AudioContext, cue: PreviewCue) {
+    const key = bufferKey(cue);
+    if (this.decoding.has(key) || this.undecodable.has(key)) return;
+    this.decoding.add(key);
+    decodeTake(ctx, cue.audioUrl, cue.end - cue.start)
+      .then(buffer => this.storeBuffer(key, buffer))
+      .catch(error => {
+        this.undecodable.add(key);
+        console.error(`Preview could not decode take for ${cue.segmentId}`, error);
+      })
+      .finally(() => this.decoding.delete(key));
+  }
+
+  private storeBuffer(key: string, buffer: AudioBuffer) {
+    this.buffers.set(key, buffer);
+    this.bufferBytes += buffer.length * buffer.numberOfChannels * 4;
+    // Scheduled sources hold their own reference, so dropping an entry never cuts a take short
+    for (const [oldKey, old] of this.buffers) {
+      if (this.bufferBytes <= MAX_BUFFER_BYTES || oldKey === key) break;
+      this.buffers.delete(oldKey);
+      this.bufferBytes -= old.length * old.numberOfChannels * 4;
+    }
+  }
+
+  private stopTake(segmentId: string) {
+    const entry = this.scheduled.get(segmentId);
+    if (!entry) return;
+    try {
+      entry.source.stop();
+    } catch {
+      // Never started
+    }
+    this.scheduled.delete(segmentId);
+  }
+
+  private stopScheduled() {
+    [...this.scheduled.keys()].forEach(id => this.stopTake(id));
+  }
+}
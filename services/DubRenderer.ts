@@ -0,0 +1,216 @@
+/**
+ * DubRenderer.ts
+ * Synthesizes every segment of a dubbing track and mixes the takes into a
+ * single timeline-accurate WAV.
+ */
+import { GeneratedTake, Segment, VideoAnalysisResult, VoiceSettings } from '../types';
+import { audioBufferToWav } from '../utils/audioUtils';
+import { getSegmentScript, takeKey } from '../utils/tracks';
+import { resolveVoiceSettings, sameVoiceSettings } from '../utils/voiceSettings';
+import { MOCK_AUDIO_URL } from './VoiceManager';
+import { synthesizeFitted, FitSettings, SynthesizeFn } from './DurationFitter';
+import { connectBackground, MixSettings } from './BackgroundMixer';
+
+const DEFAULT_SAMPLE_RATE = 48000;
+// Mock-mode placeholder so demo renders are audible
+const PLACEHOLDER_TONE_HZ = 440;
+const PLACEHOLDER_GAIN = 0.1;
+const DISABLED_FIT: FitSettings = { enabled: false, tolerance: 0, adjustSpeed: false, timeStretch: false, maxStretch: 0 };
+
+export type RenderPhase = 'preparing' | 'synthesizing' | 'mixing' | 'encoding' | 'done';
+
+export interface RenderProgress {
+  phase: RenderPhase;
+  done: number;
+  total: number;
+}
+
+export interface SegmentRenderFailure {
+  segment_id: string;
+  speaker_id: string;
+  start_time: number;
+  error: string;
+}
+
+export interface RenderRequest {
+  analysis: VideoAnalysisResult;
+  // DubTrack language to render; unset renders the original-language script
+  language?: string;
+  // Existing takes keyed by utils/tracks.takeKey; reused when text and speaker still match
+  takes: Record<string, GeneratedTake>;
+  synthesize: SynthesizeFn;
+  // Duration fitting applied to newly synthesized takes; unset disables fitting
+  fit?: FitSettings;
+  // Original soundtrack to keep under the dub (ducked or as a background stem)
+  background?: { videoFile: File; settings: MixSettings };
+}
+
+export interface RenderOptions {
+  sampleRate?: number;
+  onProgress?: (progress: RenderProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface RenderResult {
+  wav: Blob;
+  // The rendered mix; may run a few seconds of silence past `duration`
+  buffer: AudioBuffer;
+  // Seconds up to the real end of the mix, as encoded in `wav`
+  duration: number;
+  failures: SegmentRenderFailure[];
+  // Takes synthesized during this render, for the caller to keep
+  newTakes: GeneratedTake[];
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Render cancelled', 'AbortError');
+};
+
+const createPlaceholderTone = (ctx: BaseAudioContext, duration: number): AudioBuffer => {
+  const length = Math.max(1, Math.floor(duration * ctx.sampleRate));
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) {
+    data[i] = Math.sin((2 * Math.PI * PLACEHOLDER_TONE_HZ * i) / ctx.sampleRate) * PLACEHOLDER_GAIN;
+  }
+  return buffer;
+};
+
+/**
+ * Fetches and decodes a take URL. Mock URLs become a placeholder tone of the segment's length.
+ */
+export const decodeTake = async (
+  ctx: BaseAudioContext,
+  audioUrl: string,
+  fallbackDuration: number
+): Promise<AudioBuffer> => {
+  if (audioUrl === MOCK_AUDIO_URL) {
+    return createPlaceholderTone(ctx, fallbackDuration);
+  }
+  const response = await fetch(audioUrl);
+  if (!response.ok) {
+    throw new Error(`Could not load take audio (${response.status})`);
+  }
+  return ctx.decodeAudioData(await response.arrayBuffer());
+};
+
+/**
+ * Whether a take still matches its segment: same script, speaker and resolved voice settings.
+ */
+export const isTakeCurrent = (
+  take: GeneratedTake | undefined,
+  segment: Segment,
+  script: string,
+  settings: VoiceSettings
+): take is GeneratedTake =>
+  !!take &&
+  take.text === script &&
+  take.speaker_id === segment.speaker_id &&
+  sameVoiceSettings(take.voice_settings, settings);
+
+/**
+ * Returns an up-to-date take for the segment, synthesizing one if needed.
+ */
+const resolveTake = async (
+  request: RenderRequest,
+  segment: Segment
+): Promise<{ take: GeneratedTake; isNew: boolean }> => {
+  const script = getSegmentScript(request.analysis, segment, request.language);
+  const existing = request.takes[takeKey(segment.id, request.language)];
+  const settings = resolveVoiceSettings(request.analysis.speakers, segment);
+  if (isTakeCurrent(existing, segment, script, settings)) {
+    return { take: existing, isNew: false };
+  }
+
+  const fitted = await synthesizeFitted(
+    segment,
+    script,
+    request.synthesize,
+    request.fit ?? DISABLED_FIT,
+    settings
+  );
+  return {
+    isNew: true,
+    take: {
+      segment_id: segment.id,
+      speaker_id: segment.speaker_id,
+      ...(request.language ? { language: request.language } : {}),
+      text: script,
+      created_at: new Date().toISOString(),
+      ...(Object.keys(settings).length > 0 ? { voice_settings: settings } : {}),
+      ...fitted,
+    },
+  };
+};
+
+/**
+ * Renders the full dub: every segment's take placed at its start_time on one timeline.
+ * Segments that fail to synthesize or decode are reported and left silent.
+ */
+export const renderDubTrack = async (
+  request: RenderRequest,
+  options: RenderOptions = {}
+): Promise<RenderResult> => {
+  const { analysis } = request;
+  const sampleRate = options.sampleRate || DEFAULT_SAMPLE_RATE;
+  const segments = analysis.segments.filter(s =>
+    getSegmentScript(analysis, s, request.language).trim() && s.end_time > s.start_time
+  );
+  const lastEnd = Math.max(0, ...segments.map(s => s.end_time));
+  const duration = Math.max(analysis.metadata.total_duration || 0, lastEnd);
+  if (duration <= 0) {
+    throw new Error('Nothing to render: the timeline is empty.');
+  }
+
+  // Takes may run past their segment; leave headroom so nothing is truncated
+  const ctx = new OfflineAudioContext(2, Math.ceil((duration + 5) * sampleRate), sampleRate);
+  const failures: SegmentRenderFailure[] = [];
+  const newTakes: GeneratedTake[] = [];
+  let renderedEnd = duration;
+
+  if (request.background && request.background.settings.mode !== 'replace') {
+    options.onProgress?.({ phase: 'preparing', done: 0, total: segments.length });
+    await connectBackground(ctx, request.background.videoFile, segments, request.background.settings);
+  }
+
+  for (let i = 0; i < segments.length; i++) {
+    throwIfAborted(options.signal);
+    const segment = segments[i];
+    options.onProgress?.({ phase: 'synthesizing', done: i, total: segments.length });
+
+    try {
+      const { take, isNew } = await resolveTake(request, segment);
+      if (isNew) newTakes.push(take);
+
+      const clip = await decodeTake(ctx, take.audio_url, segment.end_time - segment.start_time);
+      const source = ctx.createBufferSource();
+      source.buffer = clip;
+      source.connect(ctx.destination);
+      source.start(segment.start_time);
+      renderedEnd = Math.max(renderedEnd, segment.start_time + clip.duration);
+    } catch (error: any) {
+      if (error?.name === 'AbortError') throw error;
+      console.error(`Render failed for segment ${segment.id}`, error);
+      failures.push({
+        segment_id: segment.id,
+        speaker_id: segment.speaker_id,
+        start_time: segment.start_time,
+        error: error?.message || String(error),
+      });
+    }
+  }
+
+  throwIfAborted(options.signal);
+  options.onProgress?.({ phase: 'mixing', done: segments.length, total: segments.length });
+  const mixed = await ctx.startRendering();
+
+  // Trim the headroom back to the real end of the mix. Encoded straight from the
+  // rendered buffer: a copy of a long stereo mix would double the memory used.
+  const trimmedLength = Math.min(mixed.length, Math.ceil(renderedEnd * sampleRate));
+
+  options.onProgress?.({ phase: 'encoding', done: segments.length, total: segments.length });
+  const wav = audioBufferToWav(mixed, trimmedLength);
+  options.onProgress?.({ phase: 'done', done: segments.length, total: segments.length });
+
+  return { wav, buffer: mixed, duration: trimmedLength / sampleRate, failures, newTakes };
+};
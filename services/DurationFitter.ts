@@ -0,0 +1,105 @@
+/**
+ * DurationFitter.ts
+ * Makes synthesized speech fit its segment's time slot: first by asking the
+ * provider for a faster speaking rate, then by a local pitch-preserving stretch.
+ */
+import { Segment } from '../types';
+import { audioBufferToWav } from '../utils/audioUtils';
+import { timeStretch } from '../utils/timeStretch';
+import { MOCK_AUDIO_URL, VoiceManager } from './VoiceManager';
+import { SpeechOptions, clamp } from './VoiceProvider';
+
+export interface FitSettings {
+  enabled: boolean;
+  // Allowed deviation from the slot length as a fraction (0.1 = ±10%)
+  tolerance: number;
+  adjustSpeed: boolean;
+  timeStretch: boolean;
+  // Largest local compression applied (0.25 = down to 75% of the length)
+  maxStretch: number;
+}
+
+export const DEFAULT_FIT_SETTINGS: FitSettings = {
+  enabled: true,
+  tolerance: 0.1,
+  adjustSpeed: true,
+  timeStretch: true,
+  maxStretch: 0.25,
+};
+
+export type SynthesizeFn = (speakerId: string, text: string, options?: SpeechOptions) => Promise<string>;
+
+export interface FittedTake {
+  audio_url: string;
+  duration?: number;
+  // Speaking rate the provider applied, after clamping to its range
+  speed: number;
+  stretched: boolean;
+  overflow?: number;
+}
+
+let measureContext: OfflineAudioContext | null = null;
+
+// decodeAudioData needs a context but never renders; one tiny offline context is reused
+const decodeUrl = async (url: string): Promise<AudioBuffer> => {
+  if (!measureContext) measureContext = new OfflineAudioContext(1, 1, 48000);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load take audio (${response.status})`);
+  }
+  return measureContext.decodeAudioData(await response.arrayBuffer());
+};
+
+const withinTolerance = (duration: number, target: number, tolerance: number) =>
+  duration <= target * (1 + tolerance);
+
+/**
+ * Synthesizes `text` for the segment and fits it to end_time - start_time.
+ * Takes that are shorter than the slot are left alone: trailing silence
+ * sounds better than slowed-down speech.
+ */
+export const synthesizeFitted = async (
+  segment: Segment,
+  text: string,
+  synthesize: SynthesizeFn,
+  settings: FitSettings = DEFAULT_FIT_SETTINGS,
+  baseOptions: SpeechOptions = {}
+): Promise<FittedTake> => {
+  const [minSpeed, maxSpeed] = VoiceManager.getSpeedRange(segment.speaker_id);
+  const baseSpeed = clamp(baseOptions.speed ?? 1.0, minSpeed, maxSpeed);
+  const target = segment.end_time - segment.start_time;
+  let url = await synthesize(segment.speaker_id, text, baseOptions);
+
+  // Mock audio has no real length to measure
+  if (!settings.enabled || url === MOCK_AUDIO_URL || target <= 0) {
+    return { audio_url: url, speed: baseSpeed, stretched: false };
+  }
+
+  let buffer = await decodeUrl(url);
+  let speed = baseSpeed;
+
+  if (!withinTolerance(buffer.duration, target, settings.tolerance) && settings.adjustSpeed && baseSpeed < maxSpeed) {
+    speed = Math.min(maxSpeed, baseSpeed * (buffer.duration / target));
+    const fasterUrl = await synthesize(segment.speaker_id, text, { ...baseOptions, speed });
+    URL.revokeObjectURL(url);
+    url = fasterUrl;
+    buffer = await decodeUrl(url);
+  }
+
+  let stretched = false;
+  if (!withinTolerance(buffer.duration, target, settings.tolerance) && settings.timeStretch) {
+    const ratio = Math.max(1 - settings.maxStretch, target / buffer.duration);
+    buffer = timeStretch(buffer, ratio);
+    URL.revokeObjectURL(url);
+    url = URL.createObjectURL(audioBufferToWav(buffer));
+    stretched = true;
+  }
+
+  return {
+    audio_url: url,
+    duration: buffer.duration,
+    speed,
+    stretched,
+    overflow: Math.max(0, buffer.duration - target),
+  };
+};
@@ -0,0 +1,202 @@
+/**
+ * EditHistory.ts
+ * Undo/redo for timeline edits. Each edit is recorded as an entity-level diff
+ * (segments, speakers and dubbing-track texts) rather than a snapshot, so the
+ * stack stays small enough to autosave with the session. Edits that also change
+ * the voice map or takes record those changes too, for the caller to apply.
+ */
+import {
+  EditCommand,
+  EditHistory,
+  EntityChange,
+  Segment,
+  TrackTextChange,
+  VideoAnalysisResult,
+} from '../types';
+import { upsertTrackTexts } from '../utils/tracks';
+
+export type HistoryDirection = 'undo' | 'redo';
+
+export const MAX_HISTORY = 100;
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const diffList = <T extends { id: string }>(before: T[], after: T[]): EntityChange<T>[] => {
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterById = new Map(after.map(item => [item.id, item]));
+  const changes: EntityChange<T>[] = [];
+
+  before.forEach((item, index) => {
+    const next = afterById.get(item.id);
+    if (!next) {
+      changes.push({ id: item.id, before: item, after: null, index });
+    } else if (!sameValue(item, next)) {
+      changes.push({ id: item.id, before: item, after: next });
+    }
+  });
+  after.forEach((item, index) => {
+    if (!beforeById.has(item.id)) {
+      changes.push({ id: item.id, before: null, after: item, index });
+    }
+  });
+  return changes;
+};
+
+const applyList = <T extends { id: string }>(
+  list: T[],
+  changes: EntityChange<T>[],
+  direction: HistoryDirection
+): T[] => {
+  const target = (change: EntityChange<T>) => (direction === 'undo' ? change.before : change.after);
+  const removed = new Set(changes.filter(c => target(c) === null).map(c => c.id));
+  const updated = new Map(
+    changes
+      .filter(c => c.before !== null && c.after !== null)
+      .map(c => [c.id, target(c)!])
+  );
+  const result = list
+    .filter(item => !removed.has(item.id))
+    .map(item => updated.get(item.id) ?? item);
+
+  // Insert in ascending final position so each index lands where it was recorded
+  changes
+    .filter(c => (direction === 'undo' ? c.before !== null && c.after === null : c.before === null && c.after !== null))
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .forEach(change => {
+      result.splice(Math.min(change.index ?? result.length, result.length), 0, target(change)!);
+    });
+  return result;
+};
+
+const diffTexts = (before: VideoAnalysisResult, after: VideoAnalysisResult): TrackTextChange[] => {
+  const changes: TrackTextChange[] = [];
+  const languages = new Set([...(before.tracks || []), ...(after.tracks || [])].map(t => t.language));
+
+  languages.forEach(language => {
+    const beforeTexts = before.tracks?.find(t => t.language === language)?.texts || {};
+    const afterTexts = after.tracks?.find(t => t.language === language)?.texts || {};
+    new Set([...Object.keys(beforeTexts), ...Object.keys(afterTexts)]).forEach(segmentId => {
+      const from = beforeTexts[segmentId] ?? null;
+      const to = afterTexts[segmentId] ?? null;
+      if (from !== to) changes.push({ language, segment_id: segmentId, before: from, after: to });
+    });
+  });
+  return changes;
+};
+
+/**
+ * Short description of an edit for the history panel.
+ */
+export const describeChanges = (
+  segments: EntityChange<Segment>[],
+  speakerCount: number,
+  textCount: number
+): string => {
+  const added = segments.filter(c => !c.before).length;
+  const removed = segments.filter(c => !c.after).length;
+  const changed = segments.filter(c => c.before && c.after);
+
+  if (added === 1 && removed === 0 && changed.length === 1) return 'Split segment';
+  if (removed === 1 && added === 0 && changed.length === 1) return 'Merge segments';
+  if (added > 0 && removed === 0) return added === 1 ? 'Add segment' : `Add ${added} segments`;
+  if (removed > 0 && added === 0) return removed === 1 ? 'Delete segment' : `Delete ${removed} segments`;
+  if (changed.length > 0) {
+    const count = changed.length === 1 ? 'segment' : `${changed.length} segments`;
+    if (changed.some(c => c.before!.speaker_id !== c.after!.speaker_id)) return `Reassign ${count}`;
+    if (changed.some(c => c.before!.start_time !== c.after!.start_time || c.before!.end_time !== c.after!.end_time)) {
+      return `Retime ${count}`;
+    }
+    return changed.length === 1 ? 'Edit text' : `Edit ${changed.length} texts`;
+  }
+  if (speakerCount > 0) return 'Edit speakers';
+  if (textCount > 0) return textCount === 1 ? 'Edit translation' : `Edit ${textCount} translations`;
+  return 'Edit';
+};
+
+// Changes to session state outside the analysis, recorded alongside its diff
+export type CommandEffects = Pick<EditCommand, 'voices' | 'takes'>;
+
+/**
+ * Records the difference between two analysis states, or null when nothing undoable changed.
+ */
+export const createCommand = (
+  before: VideoAnalysisResult,
+  after: VideoAnalysisResult,
+  label?: string,
+  effects: CommandEffects = {}
+): EditCommand | null => {
+  const segments = diffList(before.segments, after.segments);
+  const speakers = diffList(before.speakers, after.speakers);
+  const texts = diffTexts(before, after);
+  const voices = effects.voices || [];
+  const takes = effects.takes || [];
+  if (segments.length === 0 && speakers.length === 0 && texts.length === 0 && voices.length === 0 && takes.length === 0) {
+    return null;
+  }
+
+  return {
+    id: `cmd_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    label: label || describeChanges(segments, speakers.length, texts.length),
+    created_at: new Date().toISOString(),
+    ...(segments.length ? { segments } : {}),
+    ...(speakers.length ? { speakers } : {}),
+    ...(texts.length ? { texts } : {}),
+    ...(voices.length ? { voices } : {}),
+    ...(takes.length ? { takes } : {}),
+  };
+};
+
+/**
+ * Reverts (undo) or re-applies (redo) a command.
+ */
+export const applyCommand = (
+  analysis: VideoAnalysisResult,
+  command: EditCommand,
+  direction: HistoryDirection
+): VideoAnalysisResult => {
+  let next: VideoAnalysisResult = {
+    ...analysis,
+    segments: command.segments ? applyList(analysis.segments, command.segments, direction) : analysis.segments,
+    speakers: command.speakers ? applyList(analysis.speakers, command.speakers, direction) : analysis.speakers,
+  };
+
+  command.texts?.forEach(change => {
+    const value = direction === 'undo' ? change.before : change.after;
+    if (value !== null) {
+      next = upsertTrackTexts(next, change.language, { [change.segment_id]: value });
+      return;
+    }
+    next = {
+      ...next,
+      tracks: next.tracks?.map(track => {
+        if (track.language !== change.language) return track;
+        const { [change.segment_id]: _removed, ...texts } = track.texts;
+        return { ...track, texts };
+      }),
+    };
+  });
+  return next;
+};
+
+/**
+ * The history as saved with a session. Take changes are dropped: their audio
+ * URLs do not survive a reload.
+ */
+export const toPersistedHistory = (history: EditHistory): EditHistory => {
+  const strip = (command: EditCommand): EditCommand => {
+    if (!command.takes) return command;
+    const { takes: _takes, ...rest } = command;
+    return rest;
+  };
+  return { past: history.past.map(strip), future: history.future.map(strip) };
+};
+
+/**
+ * Adds a command to the stack; a new edit discards anything that could be redone.
+ */
+export const pushCommand = (history: EditHistory, command: EditCommand): EditHistory => ({
+  past: [...history.past, command].slice(-MAX_HISTORY),
+  future: [],
+});
@@ -0,0 +1,103 @@
+/**
+ * ElevenLabsProvider.ts
+ * Instant voice cloning and Text-to-Speech through the ElevenLabs API.
+ */
+import { VoiceProvider, ProviderCapabilities, ProviderVoice, SpeechOptions, clamp } from './VoiceProvider';
+
+// ElevenLabs only accepts speaking rates in this narrower range
+const MIN_SPEED = 0.7;
+const MAX_SPEED = 1.2;
+const MODEL_ID = 'eleven_multilingual_v2';
+
+// The parts of a GET /voices entry used here
+interface ElevenLabsVoice {
+  voice_id: string;
+  name: string;
+  category?: string;
+  labels?: Record<string, string>;
+}
+
+interface ElevenLabsVoicesResponse {
+  voices?: ElevenLabsVoice[];
+}
+
+export class ElevenLabsProvider implements VoiceProvider {
+  public readonly id = 'elevenlabs' as const;
+  public readonly label = 'ElevenLabs';
+  public readonly capabilities: ProviderCapabilities = {
+    cloning: true,
+    speed: true,
+    volume: false,
+    pitch: false,
+    emotion: false,
+    speedRange: [MIN_SPEED, MAX_SPEED],
+  };
+  private baseUrl = 'https://api.elevenlabs.io/v1';
+
+  constructor(private apiKey: string | undefined) {}
+
+  public isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  public async registerVoice(name: string, referenceAudio: Blob): Promise<string> {
+    const formData = new FormData();
+    formData.append('name', name);
+    formData.append('files', referenceAudio, `reference_${name}.wav`);
+
+    const response = await fetch(`${this.baseUrl}/voices/add`, {
+      method: 'POST',
+      headers: { 'xi-api-key': this.apiKey! },
+      body: formData,
+    });
+    if (!response.ok) {
+      throw new Error(`ElevenLabs voice cloning failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (!data.voice_id) throw new Error("No voice ID returned from API");
+    return data.voice_id;
+  }
+
+  public async synthesize(text: string, voiceId: string, options: SpeechOptions): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/text-to-speech/${encodeURIComponent(voiceId)}`, {
+      method: 'POST',
+      headers: {
+        'xi-api-key': this.apiKey!,
+        'Content-Type': 'application/json',
+        'Accept': 'audio/mpeg',
+      },
+      body: JSON.stringify({
+        text,
+        model_id: MODEL_ID,
+        voice_settings: {
+          stability: 0.5,
+          similarity_boost: 0.75,
+          speed: clamp(options.speed ?? 1.0, MIN_SPEED, MAX_SPEED),
+        },
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`TTS Generation Failed: ${response.statusText}`);
+    }
+    return URL.createObjectURL(await response.blob());
+  }
+
+  public async listVoices(): Promise<ProviderVoice[]> {
+    const response = await fetch(`${this.baseUrl}/voices`, {
+      headers: { 'xi-api-key': this.apiKey! },
+    });
+    if (!response.ok) {
+      throw new Error(`Could not list ElevenLabs voices: ${response.statusText}`);
+    }
+    const data: ElevenLabsVoicesResponse = await response.json();
+    return (data.voices || [])
+      // Cloned voices are already in the voice library or the voice map
+      .filter(voice => voice.category !== 'cloned')
+      .map(voice => ({
+        voice_id: voice.voice_id,
+        name: voice.name,
+        tags: Object.values(voice.labels || {}).map(label => String(label).toLowerCase()),
+      }));
+  }
+}
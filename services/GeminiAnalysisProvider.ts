@@ -0,0 +1,303 @@
+/**
+ * GeminiAnalysisProvider.ts
+ * Sends the video to a Gemini model and asks for speakers and segments as
+ * structured JSON. Large files are uploaded through the Files API and long
+ * ones are analyzed in overlapping windows that are stitched back together.
+ */
+import { GoogleGenAI, Schema, Type, Part, FileState, File as UploadedFile, createPartFromUri } from "@google/genai";
+import { Segment } from "../types";
+import { AnalysisProvider, AnalyzeOptions } from "./AnalysisProvider";
+import { AnalysisWarning, ValidatedAnalysis, mergeWarnings, validateAnalysis } from "./AnalysisValidator";
+import { readMediaDuration } from "../utils/audioUtils";
+import { AnalysisWindow, planAnalysisWindows, clipOffset, shiftTimes, stitchAnalysisChunks } from "../utils/analysisChunks";
+
+// Inline requests are capped at 20MB and base64 adds a third
+const INLINE_LIMIT_BYTES = 15 * 1024 * 1024;
+// Longer media is analyzed in windows of this length
+const CHUNK_SECONDS = 600;
+// Shared by neighbouring windows; speakers are matched across it
+const OVERLAP_SECONDS = 20;
+const MAX_PARALLEL_CHUNKS = 3;
+const FILE_POLL_MS = 3000;
+// Gemini usually processes an upload within a few minutes
+const FILE_PROCESSING_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Helper to convert File to Base64 for the API
+const fileToGenerativePart = async (file: File) => {
+  const base64EncodedDataPromise = new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      // FileReader result is "data:mime;base64,encoded_string"
+      // We only need the encoded_string part
+      const result = reader.result as string;
+      const base64 = result.split(',')[1];
+      resolve(base64);
+    };
+    reader.readAsDataURL(file);
+  });
+
+  return {
+    inlineData: {
+      data: await base64EncodedDataPromise,
+      mimeType: file.type,
+    },
+  };
+};
+
+// Define the exact schema for the model response
+const responseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    metadata: {
+      type: Type.OBJECT,
+      properties: {
+        total_duration: { type: Type.NUMBER, description: "Total duration of the video in seconds." },
+        detected_language: { type: Type.STRING, description: "The primary language spoken in the video." },
+      },
+      required: ["total_duration", "detected_language"],
+    },
+    speakers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "Unique identifier like 'spk_1'." },
+          name: { type: Type.STRING, description: "Visual description of the speaker (e.g., 'Man in blue shirt')." },
+          voice_tone: { type: Type.STRING, description: "Description of voice tone (e.g., 'Calm, deep')." },
+        },
+        required: ["id", "name", "voice_tone"],
+      },
+    },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          speaker_id: { type: Type.STRING, description: "Must match an id from the speakers array." },
+          start_time: { type: Type.NUMBER, description: "Start time in seconds." },
+          end_time: { type: Type.NUMBER, description: "End time in seconds." },
+          text: { type: Type.STRING, description: "The spoken text or subtitle." },
+        },
+        required: ["id", "speaker_id", "start_time", "end_time", "text"],
+      },
+    },
+  },
+  required: ["metadata", "speakers", "segments"],
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Analysis cancelled', 'AbortError');
+};
+
+/**
+ * Resolves after `ms`, or rejects as soon as the signal aborts.
+ */
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Analysis cancelled', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Uploads the file and waits until Gemini has finished processing it. The
+ * upload is deleted again if processing fails, times out or is cancelled.
+ */
+const uploadFile = async (ai: GoogleGenAI, file: File, signal?: AbortSignal): Promise<UploadedFile> => {
+  let uploaded = await ai.files.upload({
+    file,
+    config: { mimeType: file.type, displayName: file.name, abortSignal: signal },
+  });
+  try {
+    const deadline = Date.now() + FILE_PROCESSING_TIMEOUT_MS;
+    while (uploaded.state === FileState.PROCESSING) {
+      if (Date.now() >= deadline) {
+        throw new Error("Gemini took too long to process the uploaded video. Try again later.");
+      }
+      await delay(FILE_POLL_MS, signal);
+      uploaded = await ai.files.get({ name: uploaded.name!, config: { abortSignal: signal } });
+    }
+    if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+      throw new Error(uploaded.error?.message || "Gemini could not process the uploaded video.");
+    }
+    return uploaded;
+  } catch (error) {
+    if (uploaded.name) {
+      ai.files.delete({ name: uploaded.name }).catch(e => console.warn("Could not delete uploaded video:", e));
+    }
+    throw error;
+  }
+};
+
+/**
+ * Like Promise.all over `items`, with at most `limit` tasks running at once.
+ * After the first failure no new tasks start, and it rejects only once the
+ * running ones have finished, so callers can clean up shared resources.
+ */
+const mapWithLimit = async <T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (next < items.length && !failed) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  const settled = await Promise.allSettled(Array.from({ length: Math.min(limit, items.length) }, worker));
+  const failure = settled.find((s): s is PromiseRejectedResult => s.status === 'rejected');
+  if (failure) throw failure.reason;
+  return results;
+};
+
+const formatOffset = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+export class GeminiAnalysisProvider implements AnalysisProvider {
+  public readonly id = 'gemini' as const;
+  public readonly label = 'Gemini';
+
+  constructor(
+    private apiKey: string | undefined,
+    private model: string,
+    private temperature: number
+  ) {}
+
+  public isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  public async analyze(file: File, options: AnalyzeOptions): Promise<ValidatedAnalysis> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey! });
+    const { signal } = options;
+    const duration = await readMediaDuration(file);
+    const windows = planAnalysisWindows(duration, CHUNK_SECONDS, OVERLAP_SECONDS);
+
+    let uploaded: UploadedFile | null = null;
+    try {
+      let mediaPart: Part;
+      if (file.size > INLINE_LIMIT_BYTES || windows.length > 1) {
+        options.onProgress?.('Uploading video...');
+        uploaded = await uploadFile(ai, file, signal);
+        mediaPart = createPartFromUri(uploaded.uri!, uploaded.mimeType || file.type);
+      } else {
+        // Convert file for API consumption
+        mediaPart = await fileToGenerativePart(file);
+      }
+      throwIfAborted(signal);
+
+      if (windows.length === 1) {
+        return validateAnalysis(await this.generate(ai, mediaPart, signal, options.transcript), { mediaDuration: duration });
+      }
+
+      let done = 0;
+      const partWarnings: AnalysisWarning[] = [];
+      options.onProgress?.(`Analyzing ${windows.length} parts...`);
+      const chunks = await mapWithLimit(windows, MAX_PARALLEL_CHUNKS, async window => {
+        const clip: Part = {
+          ...mediaPart,
+          videoMetadata: { startOffset: `${window.start}s`, endOffset: `${window.end}s` },
+        };
+        // The clip starts at 0 for the model, so the transcript is shifted to match
+        const transcript = options.transcript
+          ?.filter(s => s.end_time > window.start && s.start_time < window.end)
+          .map(s => ({ ...s, start_time: s.start_time - window.start, end_time: s.end_time - window.start }));
+        // Each part is repaired on its own so stitching only sees well-formed segments
+        const { result, warnings } = validateAnalysis(await this.generate(ai, clip, signal, transcript, window));
+        const offset = clipOffset(result, window);
+        // Segment IDs are renumbered by stitching, so warnings keep only their position
+        partWarnings.push(...warnings.map(({ action, message, time }) => ({
+          action,
+          message: `Part ${windows.indexOf(window) + 1}: ${message}`,
+          time: time === undefined ? undefined : time + offset,
+        })));
+        options.onProgress?.(`Analyzed ${++done} of ${windows.length} parts`);
+        return { window, result: shiftTimes(result, offset) };
+      });
+      const stitched = validateAnalysis(stitchAnalysisChunks(chunks, duration, !!options.transcript), { mediaDuration: duration });
+      return {
+        result: stitched.result,
+        warnings: mergeWarnings(partWarnings, stitched.warnings),
+      };
+    } finally {
+      if (uploaded?.name) {
+        ai.files.delete({ name: uploaded.name }).catch(error => console.warn("Could not delete uploaded video:", error));
+      }
+    }
+  }
+
+  private async generate(
+    ai: GoogleGenAI,
+    mediaPart: Part,
+    signal: AbortSignal | undefined,
+    transcript?: Segment[],
+    window?: AnalysisWindow
+  ): Promise<unknown> {
+    const systemInstruction = transcript
+      ? `Analyze the visual and audio track of this video. A timed transcript is provided.
+1. Identify all distinct speakers based on visual appearance and voice.
+2. Assign a speaker_id to every transcript segment.
+3. Keep each segment's id, start_time, end_time and text exactly as given. Do not add, drop or merge segments.
+4. Output PURE JSON only. No markdown formatting.`
+      : `Analyze the visual and audio track of this video.
+1. Identify all distinct speakers based on visual appearance and voice.
+2. Break the audio down into granular segments where a single speaker is talking continuously.
+3. Transcribe the spoken text exactly.
+4. Ensure timestamps are precise to 0.1s.
+5. Output PURE JSON only. No markdown formatting.`;
+
+    const request = transcript
+      ? `Attribute speakers for this transcript:\n${JSON.stringify(
+          transcript.map(({ id, start_time, end_time, text }) => ({ id, start_time, end_time, text }))
+        )}`
+      : `Extract structured dubbing data for this video.`;
+    const prompt = window
+      ? `This clip is ${formatOffset(window.start)}-${formatOffset(window.end)} of a longer video. Give all timestamps in seconds from the start of this clip.\n${request}`
+      : request;
+
+    const response = await ai.models.generateContent({
+      model: this.model,
+      contents: {
+        parts: [
+          mediaPart,
+          {
+            text: prompt
+          }
+        ]
+      },
+      config: {
+        systemInstruction: systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: responseSchema,
+        temperature: this.temperature,
+        abortSignal: signal,
+      },
+    });
+
+    let responseText = response.text;
+
+    if (!responseText) {
+      throw new Error("No response received from the model. The request might have been blocked.");
+    }
+
+    // Strip Markdown formatting if present (e.g., ```json ... ```)
+    responseText = responseText.replace(/```json/g, '').replace(/```/g, '').trim();
+
+    try {
+      return JSON.parse(responseText);
+    } catch {
+      throw new Error("Failed to parse the model output. The response was not valid JSON.");
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * HttpAnalysisProvider.ts
+ * Posts the media to a self-hosted analysis server (e.g. Whisper + pyannote)
+ * so analysis can run on-prem.
+ *
+ * Request: multipart/form-data with `media` (the file) and, when seeding from
+ * a transcript, `transcript` (JSON array of {id, start_time, end_time, text}).
+ * Response: a VideoAnalysisResult as JSON.
+ */
+import { AnalysisProvider, AnalyzeOptions } from "./AnalysisProvider";
+import { ValidatedAnalysis, validateAnalysis } from "./AnalysisValidator";
+import { readMediaDuration } from "../utils/audioUtils";
+
+export class HttpAnalysisProvider implements AnalysisProvider {
+  public readonly id = 'http' as const;
+  public readonly label = 'Self-hosted server';
+
+  constructor(
+    private endpoint: string,
+    // Sent as a bearer token when the server requires one
+    private apiKey?: string
+  ) {}
+
+  public isConfigured(): boolean {
+    return !!this.endpoint.trim();
+  }
+
+  public async analyze(file: File, options: AnalyzeOptions): Promise<ValidatedAnalysis> {
+    const formData = new FormData();
+    formData.append('media', file, file.name);
+    if (options.transcript) {
+      formData.append('transcript', JSON.stringify(
+        options.transcript.map(({ id, start_time, end_time, text }) => ({ id, start_time, end_time, text }))
+      ));
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint.trim(), {
+        method: 'POST',
+        headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {},
+        body: formData,
+        signal: options.signal,
+      });
+    } catch (error: any) {
+      if (error?.name === 'AbortError') throw error;
+      throw new Error(`Could not reach the analysis server at ${this.endpoint}.`);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Analysis server error ${response.status}: ${detail || response.statusText}`);
+    }
+
+    let result: unknown;
+    try {
+      result = await response.json();
+    } catch {
+      throw new Error("Failed to parse the analysis server response. The response was not valid JSON.");
+    }
+    return validateAnalysis(result, { mediaDuration: await readMediaDuration(file) });
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * LocalVoiceProvider.ts
+ * Offline provider built on the in-browser formant synthesizer. Always
+ * available and deterministic, so it backs demo projects and works without
+ * API keys. "Cloning" derives a repeatable voice from the reference clip.
+ */
+import {
+  VoiceProvider,
+  ProviderCapabilities,
+  ProviderVoice,
+  SpeechOptions,
+  clamp,
+  MIN_SPEECH_SPEED,
+  MAX_SPEECH_SPEED,
+} from './VoiceProvider';
+import { fingerprintFile } from './SessionStore';
+import { audioBufferToWav } from '../utils/audioUtils';
+import { FormantVoice, SYNTH_SAMPLE_RATE, hashString, synthesizeFormants, voiceFromSeed } from '../utils/formantSynth';
+
+const PRESETS: (ProviderVoice & { voice: FormantVoice })[] = [
+  { voice_id: 'deep', name: 'Deep', tags: ['male', 'low'], voice: { pitch: 95, formantScale: 0.9, breathiness: 0.1 } },
+  { voice_id: 'warm', name: 'Warm', tags: ['male'], voice: { pitch: 125, formantScale: 0.95, breathiness: 0.15 } },
+  { voice_id: 'clear', name: 'Clear', tags: ['female'], voice: { pitch: 200, formantScale: 1.1, breathiness: 0.08 } },
+  { voice_id: 'bright', name: 'Bright', tags: ['female', 'high'], voice: { pitch: 235, formantScale: 1.15, breathiness: 0.12 } },
+];
+
+export class LocalVoiceProvider implements VoiceProvider {
+  public readonly id = 'local' as const;
+  public readonly label = 'Local (offline)';
+  public readonly capabilities: ProviderCapabilities = {
+    cloning: true,
+    speed: true,
+    volume: true,
+    pitch: true,
+    emotion: true,
+    speedRange: [MIN_SPEECH_SPEED, MAX_SPEECH_SPEED],
+  };
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public async registerVoice(name: string, referenceAudio: Blob): Promise<string> {
+    // The name keeps speakers apart when there is no clip to tell them apart (demo data)
+    const fingerprint = await fingerprintFile(referenceAudio);
+    return `${name}_${fingerprint.slice(0, 12)}`;
+  }
+
+  public async synthesize(text: string, voiceId: string, options: SpeechOptions): Promise<string> {
+    const voice = PRESETS.find(p => p.voice_id === voiceId)?.voice ?? voiceFromSeed(hashString(voiceId));
+    const speed = options.speed === undefined ? undefined : clamp(options.speed, MIN_SPEECH_SPEED, MAX_SPEECH_SPEED);
+    const samples = synthesizeFormants(text, voice, { ...options, speed });
+    const buffer = new AudioBuffer({ length: samples.length, sampleRate: SYNTH_SAMPLE_RATE, numberOfChannels: 1 });
+    buffer.copyToChannel(samples, 0);
+    return URL.createObjectURL(audioBufferToWav(buffer));
+  }
+
+  public async listVoices(): Promise<ProviderVoice[]> {
+    return PRESETS.map(({ voice_id, name, tags }) => ({ voice_id, name, tags }));
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * MiniMaxProvider.ts
+ * Voice cloning and Text-to-Speech through the MiniMax API.
+ */
+import {
+  VoiceProvider,
+  ProviderCapabilities,
+  ProviderVoice,
+  SpeechOptions,
+  clamp,
+  MIN_SPEECH_SPEED,
+  MAX_SPEECH_SPEED,
+  MIN_SPEECH_PITCH,
+  MAX_SPEECH_PITCH,
+} from './VoiceProvider';
+
+// MiniMax accepts volumes in (0, 10]
+const MIN_VOLUME = 0.1;
+const MAX_VOLUME = 10;
+
+// System voices, usable without cloning
+const STOCK_VOICES: ProviderVoice[] = [
+  { voice_id: 'presenter_male', name: 'Presenter (male)', tags: ['narration', 'male'] },
+  { voice_id: 'presenter_female', name: 'Presenter (female)', tags: ['narration', 'female'] },
+  { voice_id: 'audiobook_male_1', name: 'Audiobook (male)', tags: ['storytelling', 'male'] },
+  { voice_id: 'audiobook_female_1', name: 'Audiobook (female)', tags: ['storytelling', 'female'] },
+  { voice_id: 'male-qn-jingying', name: 'Elite young man', tags: ['male', 'young'] },
+  { voice_id: 'female-yujie', name: 'Mature woman', tags: ['female'] },
+];
+
+export class MiniMaxProvider implements VoiceProvider {
+  public readonly id = 'minimax' as const;
+  public readonly label = 'MiniMax';
+  public readonly capabilities: ProviderCapabilities = {
+    cloning: true,
+    speed: true,
+    volume: true,
+    pitch: true,
+    emotion: true,
+    speedRange: [MIN_SPEECH_SPEED, MAX_SPEECH_SPEED],
+  };
+  private baseUrl = 'https://api.minimax.chat/v1';
+
+  constructor(private apiKey: string | undefined) {}
+
+  public isConfigured(): boolean {
+    return !!this.apiKey && this.apiKey !== 'mock-key';
+  }
+
+  /**
+   * Registers a voice by uploading a reference audio clip.
+   */
+  public async registerVoice(name: string, referenceAudio: Blob): Promise<string> {
+    try {
+      const formData = new FormData();
+      formData.append('file', referenceAudio, `reference_${name}.wav`);
+      formData.append('purpose', 'voice_cloning');
+
+      // Note: Endpoint depends on specific MiniMax product (Files Upload vs dedicated cloning)
+      // This uses a generic file upload pattern common in these APIs
+      const response = await fetch(`${this.baseUrl}/files/upload`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+        },
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error(`MiniMax Upload Failed: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      // Assuming response contains { file_id: "..." } which acts as voice_id for dynamic T2A
+      const voiceId = data.file_id || data.voice_id;
+
+      if (!voiceId) throw new Error("No voice ID returned from API");
+      return voiceId;
+    } catch (error) {
+      console.error("Voice Registration Error:", error);
+      throw error;
+    }
+  }
+
+  public async synthesize(text: string, voiceId: string, options: SpeechOptions): Promise<string> {
+    try {
+      const payload = {
+        model: "speech-01",
+        text: text,
+        voice_setting: {
+            voice_id: voiceId,
+            speed: clamp(options.speed ?? 1.0, MIN_SPEECH_SPEED, MAX_SPEECH_SPEED),
+            vol: clamp(options.volume ?? 1.0, MIN_VOLUME, MAX_VOLUME),
+            pitch: Math.round(clamp(options.pitch ?? 0, MIN_SPEECH_PITCH, MAX_SPEECH_PITCH)),
+            ...(options.emotion ? { emotion: options.emotion } : {}),
+        }
+      };
+
+      const response = await fetch(`${this.baseUrl}/t2a_v2`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        throw new Error(`TTS Generation Failed: ${response.statusText}`);
+      }
+
+      // MiniMax returns audio stream usually.
+      const audioBlob = await response.blob();
+      return URL.createObjectURL(audioBlob);
+
+    } catch (error) {
+      console.error("TTS Generation Error:", error);
+      throw error;
+    }
+  }
+
+  public async listVoices(): Promise<ProviderVoice[]> {
+    return STOCK_VOICES;
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * ProjectSerializer.ts
+ * Saves and loads dubbing sessions as versioned JSON project files.
+ */
+import {
+  BundledAudio,
+  DubProject,
+  EditHistory,
+  GeneratedTake,
+  ProjectSource,
+  ProjectTake,
+  Segment,
+  VideoAnalysisResult,
+} from '../types';
+import { takeKeyOf } from '../utils/tracks';
+import { toPersistedHistory } from './EditHistory';
+import { AnalysisWarning, mergeWarnings, validateAnalysis } from './AnalysisValidator';
+
+export const PROJECT_FORMAT = 'dubstudio-project';
+export const CURRENT_PROJECT_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.dubstudio.json';
+
+export interface ProjectState {
+  analysis: VideoAnalysisResult;
+  videoFile: File | null;
+  source?: ProjectSource | null;
+  sourceHash?: string;
+  voiceMap: Record<string, string>;
+  takes: Record<string, GeneratedTake>;
+  // Undo/redo stack, passed for autosaves only
+  history?: EditHistory;
+}
+
+export interface SerializeOptions {
+  // Embed take audio as base64 so the project is self-contained
+  bundleAudio: boolean;
+  // Encoded audio by take URL, reused across saves; take URLs never change content
+  audioCache?: Map<string, BundledAudio>;
+}
+
+export interface RestoredProject {
+  analysis: VideoAnalysisResult;
+  // What validating the stored analysis repaired or flagged
+  warnings: AnalysisWarning[];
+  source: ProjectSource | null;
+  voiceMap: Record<string, string>;
+  takes: Record<string, GeneratedTake>;
+  history?: EditHistory;
+}
+
+// Version 1 kept one translation per segment and the project's target language
+interface ProjectV1 extends Omit<DubProject, 'version' | 'analysis'> {
+  version: 1;
+  analysis: Omit<VideoAnalysisResult, 'segments' | 'tracks' | 'active_track'> & {
+    segments: (Segment & { translated_text?: string })[];
+    target_language?: string;
+  };
+}
+
+interface VersionedProject {
+  version: number;
+}
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * Each step receives the raw object at version N and must return version N + 1.
+ * Steps only reshape; the result is validated when the project is restored.
+ */
+const MIGRATIONS: Record<number, (project: unknown) => VersionedProject> = {
+  // v0: a bare VideoAnalysisResult (e.g. copied out of the devtools console)
+  0: (raw): ProjectV1 => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    saved_at: new Date().toISOString(),
+    source: null,
+    analysis: raw as ProjectV1['analysis'],
+    voice_map: {},
+    takes: [],
+  }),
+  // v1 -> v2: single `translated_text` per segment + `target_language` became per-language tracks
+  1: (raw): DubProject => {
+    const project = raw as ProjectV1;
+    const { target_language, ...analysis } = project.analysis;
+    const texts: Record<string, string> = {};
+    const segments = (Array.isArray(analysis.segments) ? analysis.segments : []).map(({ translated_text, ...segment }) => {
+      if (translated_text) texts[segment.id] = translated_text;
+      return segment;
+    });
+
+    return {
+      ...project,
+      version: 2,
+      analysis: {
+        ...analysis,
+        segments,
+        ...(target_language ? { tracks: [{ language: target_language, texts }], active_track: target_language } : {}),
+      },
+      // v1 cleared takes on translation, so existing takes were spoken in the target language
+      takes: (Array.isArray(project.takes) ? project.takes : []).map(take => (target_language ? { ...take, language: target_language } : take)),
+    };
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const detectVersion = (raw: unknown): number => {
+  if (isRecord(raw) && raw.format === PROJECT_FORMAT && typeof raw.version === 'number') {
+    return raw.version;
+  }
+  if (isRecord(raw) && raw.metadata && Array.isArray(raw.speakers) && Array.isArray(raw.segments)) {
+    return 0;
+  }
+  throw new Error('Unrecognized file: this is not a DubStudio project.');
+};
+
+/**
+ * Upgrades a parsed project object of any known version to the current schema.
+ */
+export const migrateProject = (raw: unknown): DubProject => {
+  let version = detectVersion(raw);
+
+  if (version > CURRENT_PROJECT_VERSION) {
+    throw new Error(
+      `Project was saved by a newer version of DubStudio (v${version}). Please update the app.`
+    );
+  }
+
+  let project = raw;
+  while (version < CURRENT_PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available from project version ${version}.`);
+    }
+    const next = migrate(project);
+    project = next;
+    version = next.version;
+  }
+
+  return project as DubProject;
+};
+
+export const describeSource = (file: File, hash?: string): ProjectSource => ({
+  name: file.name,
+  size: file.size,
+  type: file.type,
+  last_modified: file.lastModified,
+  ...(hash ? { hash } : {}),
+});
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const base64ToBlob = (audio: BundledAudio): Blob => {
+  const binary = atob(audio.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: audio.mime_type });
+};
+
+const bundleTake = async (take: GeneratedTake, options: SerializeOptions): Promise<ProjectTake> => {
+  const { audio_url, ...rest } = take;
+  if (!options.bundleAudio || !audio_url.startsWith('blob:')) {
+    return rest;
+  }
+
+  const cached = options.audioCache?.get(audio_url);
+  if (cached) return { ...rest, audio: cached };
+  try {
+    const blob = await (await fetch(audio_url)).blob();
+    const audio: BundledAudio = { mime_type: blob.type || 'audio/mpeg', data: await blobToBase64(blob) };
+    options.audioCache?.set(audio_url, audio);
+    return { ...rest, audio };
+  } catch (error) {
+    // Object URL was revoked or never resolved; keep the take metadata only
+    console.warn(`Could not bundle audio for segment ${take.segment_id}`, error);
+    return rest;
+  }
+};
+
+/**
+ * Builds a project object from the current session state.
+ */
+export const serializeProject = async (
+  state: ProjectState,
+  options: SerializeOptions = { bundleAudio: false }
+): Promise<DubProject> => {
+  const takes = await Promise.all(
+    Object.values(state.takes).map(take => bundleTake(take, options))
+  );
+
+  return {
+    format: PROJECT_FORMAT,
+    version: CURRENT_PROJECT_VERSION,
+    saved_at: new Date().toISOString(),
+    source: state.videoFile ? describeSource(state.videoFile, state.sourceHash) : state.source ?? null,
+    analysis: state.analysis,
+    voice_map: { ...state.voiceMap },
+    takes,
+    ...(state.history ? { history: toPersistedHistory(state.history) } : {}),
+  };
+};
+
+/**
+ * Parses project file contents, migrating older versions as needed.
+ */
+export const parseProject = (text: string): DubProject => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Failed to read project file. The file is not valid JSON.');
+  }
+  return migrateProject(raw);
+};
+
+/**
+ * Turns a project back into session state. The analysis goes through the same
+ * validator as model output. Bundled take audio is rehydrated into fresh
+ * object URLs; takes without audio, or whose audio is corrupt, are dropped.
+ * Takes are keyed by utils/tracks.takeKey.
+ *
+ * @throws AnalysisValidationError when the stored analysis is unusable
+ */
+export const restoreProject = (project: DubProject): RestoredProject => {
+  const { result: analysis, warnings } = validateAnalysis(project.analysis);
+  // Undo steps were recorded against the stored analysis; they may not apply to a repaired one
+  const repaired = warnings.some(w => w.action !== 'review');
+
+  const takes: Record<string, GeneratedTake> = {};
+  const takeWarnings: AnalysisWarning[] = [];
+  (Array.isArray(project.takes) ? project.takes : []).forEach(({ audio, ...take }) => {
+    if (!audio) return;
+    let blob: Blob;
+    try {
+      blob = base64ToBlob(audio);
+    } catch (error) {
+      console.warn(`Could not restore audio for segment ${take.segment_id}`, error);
+      takeWarnings.push({
+        action: 'removed',
+        message: 'A generated take had corrupt audio and was dropped; generate it again.',
+        segmentId: take.segment_id,
+        time: analysis.segments.find(s => s.id === take.segment_id)?.start_time,
+      });
+      return;
+    }
+    takes[takeKeyOf(take)] = { ...take, audio_url: URL.createObjectURL(blob) };
+  });
+
+  return {
+    analysis,
+    warnings: mergeWarnings(warnings, takeWarnings),
+    source: project.source ?? null,
+    voiceMap: Object.fromEntries(
+      Object.entries(isRecord(project.voice_map) ? project.voice_map : {}).filter(
+        (entry): entry is [string, string] => typeof entry[1] === 'string'
+      )
+    ),
+    takes,
+    ...(project.history && !repaired ? { history: project.history } : {}),
+  };
+};
+
+/**
+ * Triggers a browser download of the project file.
+ */
+export const downloadProject = (project: DubProject, baseName = 'dubstudio_project') => {
+  const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${baseName}${PROJECT_FILE_EXTENSION}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
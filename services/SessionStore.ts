@@ -0,0 +1,130 @@
+/**
+ * SessionStore.ts
+ * Persists the working session to IndexedDB so a page refresh does not lose
+ * the analysis, edits, cloned voices or the source video.
+ */
+import { DubProject } from '../types';
+
+const DB_NAME = 'dubstudio';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const MEDIA_STORE = 'media';
+const CURRENT_KEY = 'current';
+
+// Only the head of the file is hashed; enough to tell re-encodes apart without reading GBs
+const HASH_SAMPLE_BYTES = 4 * 1024 * 1024;
+
+export interface StoredSession {
+  project: DubProject;
+  updated_at: string;
+}
+
+export interface StoredMedia {
+  file: File;
+  hash: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) db.createObjectStore(MEDIA_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = operation(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * SHA-256 of the first few MB of a file, hex encoded.
+ */
+export const fingerprintFile = async (file: Blob): Promise<string> => {
+  const sample = await file.slice(0, HASH_SAMPLE_BYTES).arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', sample);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const SessionStore = {
+  /**
+   * Overwrites the saved session with the given project snapshot.
+   */
+  saveSession: (project: DubProject) =>
+    runRequest<IDBValidKey>(SESSION_STORE, 'readwrite', store =>
+      store.put({ project, updated_at: new Date().toISOString() } as StoredSession, CURRENT_KEY)
+    ),
+
+  loadSession: async (): Promise<StoredSession | null> => {
+    const session = await runRequest<StoredSession | undefined>(SESSION_STORE, 'readonly', store =>
+      store.get(CURRENT_KEY)
+    );
+    return session ?? null;
+  },
+
+  /**
+   * Stores the source video so audio extraction keeps working after reload.
+   * Returns the fingerprint, which is also stored when the file itself cannot
+   * be (e.g. quota exceeded) so the user can re-link the same file later.
+   */
+  saveSourceMedia: async (file: File): Promise<string> => {
+    const hash = await fingerprintFile(file);
+    try {
+      await runRequest(MEDIA_STORE, 'readwrite', store =>
+        store.put({ file, hash } as StoredMedia, CURRENT_KEY)
+      );
+    } catch (error) {
+      console.warn('Could not store source video; it will need to be re-linked after reload.', error);
+      await runRequest(MEDIA_STORE, 'readwrite', store => store.delete(CURRENT_KEY));
+    }
+    return hash;
+  },
+
+  loadSourceMedia: async (): Promise<StoredMedia | null> => {
+    const media = await runRequest<StoredMedia | undefined>(MEDIA_STORE, 'readonly', store =>
+      store.get(CURRENT_KEY)
+    );
+    return media ?? null;
+  },
+
+  clearSourceMedia: () =>
+    runRequest(MEDIA_STORE, 'readwrite', store => store.delete(CURRENT_KEY)),
+
+  /**
+   * Removes the saved session and source video.
+   */
+  clear: async () => {
+    await runRequest(SESSION_STORE, 'readwrite', store => store.delete(CURRENT_KEY));
+    await runRequest(MEDIA_STORE, 'readwrite', store => store.delete(CURRENT_KEY));
+  },
+};
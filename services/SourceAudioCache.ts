@@ -0,0 +1,304 @@
+/**
+ * SourceAudioCache.ts
+ * Decodes a source video's soundtrack once into copies held by a worker, so
+ * it is never decoded again. Voice reference clips and the timeline waveform
+ * read a downsampled mono copy; render beds read a full-rate copy that keeps
+ * the stereo channels, decoded the first time a mix needs it.
+ */
+import type { SourceAudioRequest, SourceAudioResponse } from './SourceAudioWorker';
+import { audioBufferToWav, downmixGain, readMediaDuration } from '../utils/audioUtils';
+
+// Total size of the cached samples; least recently used sources are evicted beyond it
+const MAX_CACHE_BYTES = 384 * 1024 * 1024;
+// A project reads one source as a preview copy and, once mixed, a bed; a third slot keeps switching back cheap
+const MAX_CACHED_SOURCES = 3;
+// Only for files the worker cannot stream: decodeAudioData needs the whole file in memory
+const MAX_SOURCE_FILE_BYTES = 2 * 1024 * 1024 * 1024;
+// Preferred rates, best first; long sources drop to a lower one to stay within the budget
+const CACHE_SAMPLE_RATES = [24000, 16000, 8000];
+// Beds are kept at the render rate unless that would not fit; the context resamples lower ones
+const BED_FALLBACK_SAMPLE_RATES = [32000, 22050];
+const BED_MAX_CHANNELS = 2;
+
+// Low-rate mono copy for previews, or a full-rate copy for render beds
+type SourceKind = 'preview' | 'bed';
+
+interface CachedSource {
+  file: File;
+  kind: SourceKind;
+  id: string;
+  sampleRate: number;
+  duration: number;
+  bytes: number;
+  ready: Promise<void>;
+  // Reads in progress; a pinned source is evicted only once they finish
+  pins: number;
+  evictWhenIdle: boolean;
+}
+
+type Range = { start: number; end: number };
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+let nextSourceId = 1;
+let nextFileId = 1;
+const pending = new Map<number, { resolve: (response: SourceAudioResponse) => void; reject: (error: Error) => void }>();
+// Insertion order doubles as recency: entries are re-inserted on use
+const cache = new Map<string, CachedSource>();
+const fileIds = new WeakMap<File, number>();
+
+const cacheKey = (file: File, kind: SourceKind): string => {
+  let id = fileIds.get(file);
+  if (id === undefined) {
+    id = nextFileId++;
+    fileIds.set(file, id);
+  }
+  return `${id}:${kind}`;
+};
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./SourceAudioWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<SourceAudioResponse>) => {
+    const request = pending.get(event.data.requestId);
+    if (!request) return;
+    pending.delete(event.data.requestId);
+    if ('error' in event.data) {
+      request.reject(new Error(event.data.error));
+    } else {
+      request.resolve(event.data);
+    }
+  };
+  worker.onerror = (event) => {
+    console.error("Source audio worker failed:", event.message);
+    worker?.terminate();
+    worker = null;
+    pending.forEach(request => request.reject(new Error("Source audio worker failed.")));
+    pending.clear();
+    cache.clear();
+  };
+  return worker;
+};
+
+type WithoutRequestId<T> = T extends unknown ? Omit<T, 'requestId'> : never;
+
+const send = (request: WithoutRequestId<SourceAudioRequest>, transfer: Transferable[] = []): Promise<SourceAudioResponse> => {
+  const requestId = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(requestId, { resolve, reject });
+    getWorker().postMessage({ ...request, requestId }, transfer);
+  });
+};
+
+const readSamples = async (request: WithoutRequestId<SourceAudioRequest>): Promise<Float32Array> => {
+  const response = await send(request);
+  if (!('samples' in response)) throw new Error("Source audio worker returned no samples.");
+  return response.samples;
+};
+
+const evict = (key: string) => {
+  const entry = cache.get(key);
+  if (!entry) return;
+  if (entry.pins > 0) {
+    entry.evictWhenIdle = true;
+    return;
+  }
+  cache.delete(key);
+  send({ type: 'evict', sourceId: entry.id }).catch(() => {});
+};
+
+const cachedBytes = () => [...cache.values()].reduce((sum, entry) => sum + entry.bytes, 0);
+
+/**
+ * Evicts least recently used sources until `bytes` more fit. Pinned sources
+ * are skipped, so the budget can be exceeded while they are being read.
+ */
+const makeRoom = (bytes: number) => {
+  for (const [key, entry] of [...cache]) {
+    if (cache.size < MAX_CACHED_SOURCES && cachedBytes() + bytes <= MAX_CACHE_BYTES) return;
+    if (entry.pins === 0) evict(key);
+  }
+};
+
+const release = (key: string, entry: CachedSource) => {
+  entry.pins--;
+  if (entry.pins === 0 && entry.evictWhenIdle && cache.get(key) === entry) evict(key);
+};
+
+/**
+ * Has the worker decode the file, or decodes it here when the worker can't
+ * and hands the downmix over. Returns the decoded duration and channel count.
+ */
+const decodeIntoWorker = async (
+  file: File,
+  id: string,
+  sampleRate: number,
+  maxChannels: number
+): Promise<{ duration: number; numberOfChannels: number }> => {
+  const response = await send({ type: 'decode', sourceId: id, sampleRate, maxChannels, file });
+  if ('duration' in response) return response;
+
+  if (file.size > MAX_SOURCE_FILE_BYTES) {
+    throw new Error("The video is too large to decode its soundtrack in the browser.");
+  }
+  let buffer: AudioBuffer;
+  try {
+    // The context resamples while decoding, so the decoded copy is already at the cache rate
+    const ctx = new OfflineAudioContext(maxChannels, 1, sampleRate);
+    buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+  } catch (error) {
+    console.error("Failed to decode source audio:", error);
+    throw new Error("Could not decode the soundtrack. Ensure the file is a valid video/audio file.");
+  }
+  const inputChannels = buffer.numberOfChannels;
+  const channels = Array.from({ length: Math.min(maxChannels, inputChannels) }, () => new Float32Array(buffer.length));
+  for (let c = 0; c < inputChannels; c++) {
+    const input = buffer.getChannelData(c);
+    channels.forEach((output, o) => {
+      const gain = downmixGain(c, inputChannels, o, channels.length);
+      if (gain === 0) return;
+      for (let i = 0; i < output.length; i++) output[i] += input[i] * gain;
+    });
+  }
+  await send({ type: 'store', sourceId: id, sampleRate, channels }, channels.map(channel => channel.buffer));
+  return { duration: buffer.duration, numberOfChannels: channels.length };
+};
+
+/**
+ * Sample rate and channel count a new copy is kept at, or null when even the
+ * lowest rate would not fit in the cache.
+ */
+const planSource = (kind: SourceKind, duration: number, renderRate: number) => {
+  const channels = kind === 'bed' ? BED_MAX_CHANNELS : 1;
+  const rates = kind === 'bed'
+    ? [renderRate, ...BED_FALLBACK_SAMPLE_RATES.filter(rate => rate < renderRate)]
+    : CACHE_SAMPLE_RATES;
+  const sampleRate = rates.find(rate => duration * rate * channels * 4 <= MAX_CACHE_BYTES);
+  return sampleRate ? { sampleRate, channels } : null;
+};
+
+/**
+ * Decodes the file if it isn't cached yet as `kind` (concurrent callers share
+ * one decode), marks it as most recently used and pins it until `release`.
+ */
+const acquire = async (file: File, kind: SourceKind, renderRate: number = 0): Promise<CachedSource> => {
+  const key = cacheKey(file, kind);
+  const existing = cache.get(key);
+  if (existing) {
+    cache.delete(key);
+    cache.set(key, existing);
+    existing.pins++;
+    existing.evictWhenIdle = false;
+    try {
+      await existing.ready;
+    } catch (error) {
+      release(key, existing);
+      throw error;
+    }
+    return existing;
+  }
+
+  const duration = await readMediaDuration(file);
+  if (cache.has(key)) return acquire(file, kind, renderRate);
+  const plan = planSource(kind, duration, renderRate);
+  if (!plan) {
+    throw new Error(kind === 'bed'
+      ? "The soundtrack is too long to mix under the dub."
+      : "The soundtrack is too long to keep in memory.");
+  }
+  const { sampleRate } = plan;
+
+  const bytes = Math.ceil(duration * sampleRate * plan.channels * 4);
+  makeRoom(bytes);
+
+  const entry: CachedSource = {
+    file,
+    kind,
+    id: `source_${nextSourceId++}`,
+    sampleRate,
+    duration,
+    bytes,
+    ready: Promise.resolve(),
+    pins: 1,
+    evictWhenIdle: false,
+  };
+  // Container metadata can be missing or wrong; the decoded length is authoritative
+  entry.ready = decodeIntoWorker(file, entry.id, sampleRate, plan.channels).then(decoded => {
+    entry.duration = decoded.duration;
+    entry.bytes = Math.ceil(decoded.duration * sampleRate * decoded.numberOfChannels * 4);
+  });
+  cache.set(key, entry);
+  try {
+    await entry.ready;
+  } catch (error) {
+    if (cache.get(key) === entry) cache.delete(key);
+    throw error;
+  }
+  return entry;
+};
+
+/**
+ * Runs a read against the cached source, keeping it from being evicted meanwhile.
+ */
+const withSource = async <T>(
+  file: File,
+  kind: SourceKind,
+  read: (source: CachedSource) => Promise<T>,
+  renderRate?: number
+): Promise<T> => {
+  const source = await acquire(file, kind, renderRate);
+  try {
+    return await read(source);
+  } finally {
+    release(cacheKey(file, kind), source);
+  }
+};
+
+const toAudioBuffer = (channels: Float32Array[], sampleRate: number): AudioBuffer => {
+  const buffer = new AudioBuffer({ length: channels[0].length, sampleRate, numberOfChannels: channels.length });
+  channels.forEach((samples, c) => buffer.copyToChannel(samples, c));
+  return buffer;
+};
+
+export const SourceAudioCache = {
+  /**
+   * Joins several time ranges of the soundtrack into one WAV Blob, separated
+   * by short silences.
+   *
+   * @param ranges Time ranges in seconds, in playback order
+   * @param gapSeconds Silence inserted between ranges
+   */
+  extractRanges: (file: File, ranges: Range[], gapSeconds: number = 0.3): Promise<Blob> =>
+    withSource(file, 'preview', async source => {
+      const samples = await readSamples({ type: 'ranges', sourceId: source.id, ranges, gapSeconds });
+      return audioBufferToWav(toAudioBuffer([samples], source.sampleRate));
+    }),
+
+  /**
+   * Peak absolute amplitude per bucket, for drawing the waveform.
+   */
+  getPeaks: (file: File, peaksPerSecond: number): Promise<{ peaks: Float32Array; duration: number }> =>
+    withSource(file, 'preview', async source => {
+      const peaks = await readSamples({ type: 'peaks', sourceId: source.id, peaksPerSecond });
+      return { peaks, duration: source.duration };
+    }),
+
+  /**
+   * The soundtrack at up to `sampleRate`, keeping up to two channels, for use
+   * as a render's background bed. Long sources are kept at a lower rate so
+   * they fit the cache; the rendering context resamples them.
+   */
+  getBed: (file: File, sampleRate: number): Promise<AudioBuffer> =>
+    withSource(file, 'bed', async source => {
+      const response = await send({ type: 'read', sourceId: source.id });
+      if (!('channels' in response)) throw new Error("Source audio worker returned no samples.");
+      return toAudioBuffer(response.channels, source.sampleRate);
+    }, sampleRate),
+
+  /**
+   * Drops every cached source except `keep` (e.g. when another video is loaded).
+   */
+  retainOnly: (keep: File | null) => {
+    [...cache].filter(([, entry]) => entry.file !== keep).forEach(([key]) => evict(key));
+  },
+};
@@ -0,0 +1,242 @@
+/**
+ * SourceAudioWorker.ts
+ * Owns the cached copies of source soundtracks (low-rate mono ones for previews,
+ * full-rate ones for render beds) and does the per-sample work on them
+ * (waveform peaks, clip assembly) off the main thread.
+ * MP4/MOV soundtracks are decoded here too, a few hundred frames at a time
+ * with WebCodecs, so the file is never held in memory whole. Other containers
+ * are decoded on the main thread (decodeAudioData is not exposed to workers)
+ * and stored here.
+ */
+import { ByteReader, readMp4AudioTrack } from '../utils/mp4Audio';
+import { downmixGain } from '../utils/audioUtils';
+
+export type SourceAudioRequest =
+  // Keeps at most `maxChannels` channels; extra ones are downmixed
+  | { type: 'decode'; requestId: number; sourceId: string; sampleRate: number; maxChannels: number; file: File }
+  | { type: 'store'; requestId: number; sourceId: string; sampleRate: number; channels: Float32Array[] }
+  // Copy of every stored channel
+  | { type: 'read'; requestId: number; sourceId: string }
+  | { type: 'peaks'; requestId: number; sourceId: string; peaksPerSecond: number }
+  | { type: 'ranges'; requestId: number; sourceId: string; ranges: { start: number; end: number }[]; gapSeconds: number }
+  | { type: 'evict'; requestId: number; sourceId: string };
+
+export type SourceAudioResponse =
+  | { requestId: number; samples: Float32Array }
+  | { requestId: number; channels: Float32Array[] }
+  | { requestId: number; done: true }
+  // Decoded in the worker; seconds of audio and number of channels stored
+  | { requestId: number; duration: number; numberOfChannels: number }
+  // The worker cannot decode this file; decode it on the main thread and store it
+  | { requestId: number; unsupported: true }
+  | { requestId: number; error: string };
+
+// Encoded frames queued between flushes; bounds the decoder's memory
+const DECODE_BATCH_FRAMES = 512;
+// Frames stored back to back are read together, up to this many bytes
+const MAX_READ_BYTES = 1024 * 1024;
+
+const sources = new Map<string, { sampleRate: number; channels: Float32Array[] }>();
+
+let plane = new Float32Array(0);
+let mixes: Float32Array[] = [];
+
+/**
+ * Downmixes decoded audio to the cached track's channels and adds it at its
+ * timestamp, resampled to the cache rate.
+ */
+const accumulate = (out: Float32Array[], outRate: number, data: AudioData) => {
+  const frames = data.numberOfFrames;
+  if (plane.length < frames) plane = new Float32Array(frames);
+  if (mixes.length < out.length || mixes[0].length < frames) {
+    mixes = out.map(() => new Float32Array(Math.max(frames, plane.length)));
+  }
+  mixes.forEach(mix => mix.fill(0, 0, frames));
+  for (let c = 0; c < data.numberOfChannels; c++) {
+    data.copyTo(plane, { planeIndex: c, format: 'f32-planar', frameCount: frames });
+    for (let o = 0; o < out.length; o++) {
+      const gain = downmixGain(c, data.numberOfChannels, o, out.length);
+      if (gain === 0) continue;
+      const mix = mixes[o];
+      for (let i = 0; i < frames; i++) mix[i] += plane[i] * gain;
+    }
+  }
+
+  const ratio = outRate / data.sampleRate;
+  const start = (data.timestamp / 1e6) * outRate;
+  out.forEach((channel, o) => {
+    const mix = mixes[o];
+    if (ratio <= 1) {
+      // Averaging the input frames that land on each output frame doubles as a crude low-pass
+      for (let i = 0; i < frames; i++) {
+        const j = Math.floor(start + i * ratio);
+        if (j >= 0 && j < channel.length) channel[j] += mix[i] * ratio;
+      }
+    } else {
+      const end = Math.min(channel.length, Math.ceil(start + frames * ratio));
+      for (let j = Math.max(0, Math.ceil(start)); j < end; j++) {
+        channel[j] = mix[Math.min(frames - 1, Math.floor((j - start) / ratio))];
+      }
+    }
+  });
+};
+
+/**
+ * Streams an MP4/MOV soundtrack through an AudioDecoder into at most
+ * `maxChannels` channels at `sampleRate`. Returns null when the container or
+ * codec is not supported here.
+ */
+const decodeMp4 = async (
+  file: File,
+  sampleRate: number,
+  maxChannels: number
+): Promise<{ channels: Float32Array[]; duration: number } | null> => {
+  if (typeof AudioDecoder === 'undefined') return null;
+  const read: ByteReader = async (start, end) => new Uint8Array(await file.slice(start, end).arrayBuffer());
+  const track = await readMp4AudioTrack(read, file.size);
+  if (!track) return null;
+
+  const config: AudioDecoderConfig = {
+    codec: track.codec,
+    sampleRate: track.sampleRate,
+    numberOfChannels: track.numberOfChannels,
+    ...(track.description ? { description: track.description } : {}),
+  };
+  const support = await AudioDecoder.isConfigSupported(config).catch(() => null);
+  if (!support?.supported) return null;
+
+  const length = Math.ceil(track.duration * sampleRate);
+  const channels = Array.from({ length: Math.min(maxChannels, track.numberOfChannels) }, () => new Float32Array(length));
+  let failure: DOMException | null = null;
+  const decoder = new AudioDecoder({
+    output: data => {
+      try {
+        accumulate(channels, sampleRate, data);
+      } finally {
+        data.close();
+      }
+    },
+    error: error => (failure = error),
+  });
+  decoder.configure(config);
+
+  try {
+    const { offsets, sizes, times } = track;
+    for (let batch = 0; batch < sizes.length; batch += DECODE_BATCH_FRAMES) {
+      const batchEnd = Math.min(sizes.length, batch + DECODE_BATCH_FRAMES);
+      let i = batch;
+      while (i < batchEnd) {
+        // Extend the run while frames are contiguous in the file
+        let runEnd = i + 1;
+        while (
+          runEnd < batchEnd &&
+          offsets[runEnd] === offsets[runEnd - 1] + sizes[runEnd - 1] &&
+          offsets[runEnd] + sizes[runEnd] - offsets[i] <= MAX_READ_BYTES
+        ) runEnd++;
+
+        const bytes = await read(offsets[i], offsets[runEnd - 1] + sizes[runEnd - 1]);
+        for (let k = i; k < runEnd; k++) {
+          const at = offsets[k] - offsets[i];
+          decoder.decode(new EncodedAudioChunk({
+            type: 'key',
+            timestamp: Math.round(times[k] * 1e6),
+            data: bytes.subarray(at, at + sizes[k]),
+          }));
+        }
+        i = runEnd;
+      }
+      await decoder.flush();
+      if (failure) throw failure;
+    }
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+  }
+  return { channels, duration: track.duration };
+};
+
+const computePeaks = (samples: Float32Array, sampleRate: number, peaksPerSecond: number): Float32Array => {
+  const samplesPerPeak = Math.max(1, Math.floor(sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(samples.length / samplesPerPeak));
+  for (let i = 0; i < peaks.length; i++) {
+    const end = Math.min(samples.length, (i + 1) * samplesPerPeak);
+    let peak = 0;
+    for (let j = i * samplesPerPeak; j < end; j++) {
+      const value = Math.abs(samples[j]);
+      if (value > peak) peak = value;
+    }
+    peaks[i] = peak;
+  }
+  return peaks;
+};
+
+/**
+ * Joins time ranges into one clip, separated by silences. Ranges past the end
+ * of the track are left silent.
+ */
+const joinRanges = (
+  samples: Float32Array,
+  sampleRate: number,
+  ranges: { start: number; end: number }[],
+  gapSeconds: number
+): Float32Array => {
+  const spans = ranges
+    .map(r => ({ startSample: Math.max(0, Math.floor(r.start * sampleRate)), endSample: Math.floor(r.end * sampleRate) }))
+    .filter(span => span.endSample > span.startSample);
+  const gapFrames = Math.floor(gapSeconds * sampleRate);
+  const frameCount = spans.reduce((sum, span) => sum + span.endSample - span.startSample, 0)
+    + gapFrames * Math.max(0, spans.length - 1);
+  if (spans.length === 0 || frameCount <= 0) {
+    throw new Error("Invalid time range for audio extraction");
+  }
+
+  const clip = new Float32Array(frameCount);
+  let offset = 0;
+  spans.forEach(({ startSample, endSample }) => {
+    clip.set(samples.subarray(startSample, Math.min(endSample, samples.length)), offset);
+    offset += endSample - startSample + gapFrames;
+  });
+  return clip;
+};
+
+const handle = async (request: SourceAudioRequest): Promise<SourceAudioResponse> => {
+  if (request.type === 'decode') {
+    const decoded = await decodeMp4(request.file, request.sampleRate, request.maxChannels);
+    if (!decoded) return { requestId: request.requestId, unsupported: true };
+    sources.set(request.sourceId, { sampleRate: request.sampleRate, channels: decoded.channels });
+    return { requestId: request.requestId, duration: decoded.duration, numberOfChannels: decoded.channels.length };
+  }
+  if (request.type === 'store') {
+    sources.set(request.sourceId, { sampleRate: request.sampleRate, channels: request.channels });
+    return { requestId: request.requestId, done: true };
+  }
+  if (request.type === 'evict') {
+    sources.delete(request.sourceId);
+    return { requestId: request.requestId, done: true };
+  }
+
+  const source = sources.get(request.sourceId);
+  if (!source) throw new Error("Source audio is no longer cached.");
+  // Peaks and clips are only read from mono copies
+  switch (request.type) {
+    case 'peaks':
+      return { requestId: request.requestId, samples: computePeaks(source.channels[0], source.sampleRate, request.peaksPerSecond) };
+    case 'ranges':
+      return { requestId: request.requestId, samples: joinRanges(source.channels[0], source.sampleRate, request.ranges, request.gapSeconds) };
+    case 'read':
+      // Copied, since transferring would take the cached data away from the worker
+      return { requestId: request.requestId, channels: source.channels.map(channel => channel.slice()) };
+  }
+};
+
+self.onmessage = async (event: MessageEvent<SourceAudioRequest>) => {
+  let response: SourceAudioResponse;
+  try {
+    response = await handle(event.data);
+  } catch (error: any) {
+    response = { requestId: event.data.requestId, error: error?.message || String(error) };
+  }
+  const transfer = 'samples' in response ? [response.samples.buffer]
+    : 'channels' in response ? response.channels.map(channel => channel.buffer)
+    : [];
+  self.postMessage(response, { transfer });
+};
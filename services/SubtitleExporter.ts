@@ -0,0 +1,278 @@
+/**
+ * SubtitleExporter.ts
+ * Converts the timed transcript into SRT, WebVTT and ASS subtitle files.
+ */
+import { Segment, Speaker, VideoAnalysisResult } from '../types';
+import { getSegmentScript } from '../utils/tracks';
+import {
+  SPEAKER_HEX_COLORS,
+  FALLBACK_SPEAKER_HEX,
+  getSpeakerColorIndex,
+} from '../utils/speakerColors';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export interface SubtitleExportOptions {
+  maxLineLength: number;
+  maxLinesPerCue: number;
+  // Split segments that do not fit in one cue into several consecutive cues
+  splitLongCues: boolean;
+  // Prefix SRT lines with "Name: " (VTT uses voice tags, ASS uses styles instead)
+  includeSpeakerNames: boolean;
+  // DubTrack language to export; unset exports the original transcript
+  language?: string;
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleExportOptions = {
+  maxLineLength: 42,
+  maxLinesPerCue: 2,
+  splitLongCues: true,
+  includeSpeakerNames: false,
+};
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ass: 'text/x-ssa',
+};
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: Speaker | undefined;
+  lines: string[];
+}
+
+/**
+ * Greedy word wrap. Words longer than maxLength are hard-broken.
+ */
+export const wrapText = (text: string, maxLength: number): string[] => {
+  const words = text.replace(/\s+/g, ' ').trim().split(' ').filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+
+  for (let word of words) {
+    while (word.length > maxLength) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, maxLength));
+      word = word.slice(maxLength);
+    }
+    if (!word) continue;
+
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxLength) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+};
+
+const buildCues = (
+  analysis: VideoAnalysisResult,
+  options: SubtitleExportOptions
+): Cue[] => {
+  const { segments, speakers } = analysis;
+  const cues: Cue[] = [];
+  const maxLength = Math.max(1, options.maxLineLength);
+  const maxLines = Math.max(1, options.maxLinesPerCue);
+
+  [...segments]
+    .map(s => ({ ...s, text: getSegmentScript(analysis, s, options.language) }))
+    .filter(s => s.text.trim() && s.end_time > s.start_time)
+    .sort((a, b) => a.start_time - b.start_time)
+    .forEach(segment => {
+      const speaker = speakers.find(s => s.id === segment.speaker_id);
+      const lines = wrapText(segment.text, maxLength);
+
+      if (!options.splitLongCues || lines.length <= maxLines) {
+        cues.push({ start: segment.start_time, end: segment.end_time, speaker, lines });
+        return;
+      }
+
+      // Distribute the segment's duration across chunks by character count
+      const chunks: string[][] = [];
+      for (let i = 0; i < lines.length; i += maxLines) {
+        chunks.push(lines.slice(i, i + maxLines));
+      }
+      const totalChars = lines.reduce((sum, line) => sum + line.length, 0);
+      const duration = segment.end_time - segment.start_time;
+      let cursor = segment.start_time;
+
+      chunks.forEach((chunk, index) => {
+        const chars = chunk.reduce((sum, line) => sum + line.length, 0);
+        const end = index === chunks.length - 1
+          ? segment.end_time
+          : cursor + duration * (chars / totalChars);
+        cues.push({ start: cursor, end, speaker, lines: chunk });
+        cursor = end;
+      });
+    });
+
+  return cues;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const splitTime = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    h: Math.floor(totalMs / 3600000),
+    m: Math.floor((totalMs % 3600000) / 60000),
+    s: Math.floor((totalMs % 60000) / 1000),
+    ms: totalMs % 1000,
+  };
+};
+
+export const formatSrtTime = (seconds: number) => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+};
+
+export const formatVttTime = (seconds: number) => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`;
+};
+
+// ASS uses centiseconds and a single-digit hour
+export const formatAssTime = (seconds: number) => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${h}:${pad(m)}:${pad(s)}.${pad(Math.floor(ms / 10))}`;
+};
+
+const escapeVtt = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toSrt = (cues: Cue[], options: SubtitleExportOptions) =>
+  cues
+    .map((cue, i) => {
+      const lines = [...cue.lines];
+      if (options.includeSpeakerNames && cue.speaker?.name) {
+        lines[0] = `${cue.speaker.name}: ${lines[0]}`;
+      }
+      return `${i + 1}\n${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}\n${lines.join('\n')}\n`;
+    })
+    .join('\n');
+
+const toVtt = (cues: Cue[]) => {
+  const body = cues
+    .map(cue => {
+      const text = escapeVtt(cue.lines.join('\n'));
+      const voice = cue.speaker?.name ? `<v ${escapeVtt(cue.speaker.name)}>` : '';
+      return `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}\n${voice}${text}\n`;
+    })
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+};
+
+// "#rrggbb" -> "&H00BBGGRR" (ASS colors are little-endian with alpha first)
+const hexToAssColor = (hex: string) => {
+  const clean = hex.replace('#', '');
+  const r = clean.slice(0, 2);
+  const g = clean.slice(2, 4);
+  const b = clean.slice(4, 6);
+  return `&H00${b}${g}${r}`.toUpperCase();
+};
+
+/**
+ * One style name per speaker. Names may not contain commas and must be unique
+ * (renderers compare them case-insensitively), so repeated names get a number.
+ */
+const assStyleNames = (speakers: Speaker[]): Map<string, string> => {
+  const used = new Set(['default']);
+  const names = new Map<string, string>();
+  speakers.forEach(speaker => {
+    const base = (speaker.name || speaker.id).replace(/,/g, ' ').trim() || speaker.id;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} ${n}`;
+    used.add(name.toLowerCase());
+    names.set(speaker.id, name);
+  });
+  return names;
+};
+
+const toAss = (cues: Cue[], speakers: Speaker[]) => {
+  const styleFormat =
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding';
+  // Text in the speaker's color with a black outline so it stays readable
+  const style = (name: string, hex: string) =>
+    `Style: ${name},Arial,48,${hexToAssColor(hex)},&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,20,20,40,1`;
+
+  const styleNames = assStyleNames(speakers);
+  const styles = [
+    style('Default', '#ffffff'),
+    ...speakers.map(speaker => {
+      const index = getSpeakerColorIndex(speakers, speaker.id);
+      return style(styleNames.get(speaker.id)!, SPEAKER_HEX_COLORS[index] || FALLBACK_SPEAKER_HEX);
+    }),
+  ];
+
+  const events = cues.map(cue => {
+    const styleName = (cue.speaker && styleNames.get(cue.speaker.id)) || 'Default';
+    const actor = cue.speaker?.name.replace(/,/g, ' ') || '';
+    const text = cue.lines.map(line => line.replace(/[{}]/g, '')).join('\\N');
+    return `Dialogue: 0,${formatAssTime(cue.start)},${formatAssTime(cue.end)},${styleName},${actor},0,0,0,,${text}`;
+  });
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    'PlayResX: 1920',
+    'PlayResY: 1080',
+    'WrapStyle: 2',
+    '',
+    '[V4+ Styles]',
+    styleFormat,
+    ...styles,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+};
+
+/**
+ * Renders the analysis transcript as a subtitle file in the requested format.
+ */
+export const exportSubtitles = (
+  analysis: VideoAnalysisResult,
+  format: SubtitleFormat,
+  options: SubtitleExportOptions = DEFAULT_SUBTITLE_OPTIONS
+): string => {
+  const cues = buildCues(analysis, options);
+
+  switch (format) {
+    case 'srt':
+      return toSrt(cues, options);
+    case 'vtt':
+      return toVtt(cues);
+    case 'ass':
+      return toAss(cues, analysis.speakers);
+    default:
+      throw new Error(`Unsupported subtitle format: ${format}`);
+  }
+};
+
+/**
+ * Triggers a browser download of the subtitle file.
+ */
+export const downloadSubtitles = (content: string, format: SubtitleFormat, baseName = 'dubstudio_subtitles') => {
+  const blob = new Blob([content], { type: `${SUBTITLE_MIME_TYPES[format]};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${baseName}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
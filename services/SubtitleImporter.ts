@@ -0,0 +1,365 @@
+/**
+ * SubtitleImporter.ts
+ * Parses existing transcripts (SRT, WebVTT or an exported analysis JSON) into
+ * speakers and segments, so analysis can be skipped or seeded. Parsed
+ * transcripts go through the same validator as model output.
+ */
+import { Segment, Speaker, VideoAnalysisResult } from '../types';
+import { AnalysisWarning, ValidatedAnalysis, validateAnalysis } from './AnalysisValidator';
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'json';
+
+export interface TranscriptParseIssue {
+  line: number; // 1-based
+  message: string;
+}
+
+/**
+ * Thrown when a transcript cannot be parsed. Carries every problem found,
+ * each with the line it occurred on, so the user can fix the file in one go.
+ */
+export class TranscriptParseError extends Error {
+  issues: TranscriptParseIssue[];
+
+  constructor(issues: TranscriptParseIssue[]) {
+    const first = issues[0];
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+    super(`Line ${first.line}: ${first.message}${more}`);
+    this.name = 'TranscriptParseError';
+    this.issues = issues;
+  }
+}
+
+export interface ImportedTranscript {
+  format: TranscriptFormat;
+  analysis: VideoAnalysisResult;
+  // False when the file carried no speaker labels and everything was assigned to one speaker
+  hasSpeakerLabels: boolean;
+  // What validation repaired or flagged in the transcript
+  warnings: AnalysisWarning[];
+}
+
+interface RawCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker: string | null;
+}
+
+const TIMING_ARROW = '-->';
+// HH:MM:SS,mmm / HH:MM:SS.mmm / MM:SS.mmm
+const TIMESTAMP_RE = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/;
+// Leading "Name: " speaker label, as commonly written in SRT. Only applied when
+// the user says the file uses them: ordinary lines like "Note: ..." match too.
+const SPEAKER_PREFIX_RE = /^([^:\n]{1,32}):\s+(.+)$/s;
+
+const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP_RE.exec(value.trim());
+  if (!match) return null;
+  const [, h, m, s, frac] = match;
+  return (
+    Number(h || 0) * 3600 +
+    Number(m) * 60 +
+    Number(s) +
+    Number(frac.padEnd(3, '0')) / 1000
+  );
+};
+
+const parseTimingLine = (
+  line: string,
+  lineNumber: number,
+  issues: TranscriptParseIssue[]
+): { start: number; end: number } | null => {
+  const [left, right = ''] = line.split(TIMING_ARROW);
+  // VTT allows cue settings after the end timestamp
+  const endToken = right.trim().split(/\s+/)[0] || '';
+  const start = parseTimestamp(left);
+  const end = parseTimestamp(endToken);
+
+  if (start === null || end === null) {
+    issues.push({ line: lineNumber, message: `Invalid timestamp "${line.trim()}"` });
+    return null;
+  }
+  if (end <= start) {
+    issues.push({ line: lineNumber, message: 'Cue end time must be after its start time' });
+    return null;
+  }
+  return { start, end };
+};
+
+export interface TranscriptParseOptions {
+  // Treat a leading "Name: " in each cue as the speaker
+  speakerPrefixes?: boolean;
+}
+
+const splitSpeakerPrefix = (
+  text: string,
+  options: TranscriptParseOptions
+): { speaker: string | null; text: string } => {
+  const match = options.speakerPrefixes ? SPEAKER_PREFIX_RE.exec(text) : null;
+  return match ? { speaker: match[1].trim(), text: match[2].trim() } : { speaker: null, text };
+};
+
+/**
+ * Splits text into blocks separated by blank lines, remembering where each starts.
+ */
+const toBlocks = (text: string) => {
+  const lines = text.replace(/^﻿/, '').replace(/\r\n?/g, '\n').split('\n');
+  const blocks: { startLine: number; lines: string[] }[] = [];
+  let current: { startLine: number; lines: string[] } | null = null;
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '') {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { startLine: index + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(line);
+  });
+
+  return blocks;
+};
+
+export const parseSrt = (text: string, options: TranscriptParseOptions = {}): RawCue[] => {
+  const issues: TranscriptParseIssue[] = [];
+  const cues: RawCue[] = [];
+
+  toBlocks(text).forEach(block => {
+    let cursor = 0;
+    // Numeric counter line is conventional but not required
+    if (/^\d+$/.test(block.lines[0].trim())) cursor++;
+
+    const timingLine = block.lines[cursor];
+    const timingLineNumber = block.startLine + cursor;
+    if (!timingLine || !timingLine.includes(TIMING_ARROW)) {
+      issues.push({ line: timingLineNumber, message: 'Expected a timing line like "00:00:01,000 --> 00:00:02,500"' });
+      return;
+    }
+
+    const timing = parseTimingLine(timingLine, timingLineNumber, issues);
+    const body = block.lines.slice(cursor + 1).join('\n').replace(/<[^>]+>/g, '').trim();
+    if (!timing) return;
+    if (!body) {
+      issues.push({ line: timingLineNumber, message: 'Cue has no text' });
+      return;
+    }
+
+    const { speaker, text: cueText } = splitSpeakerPrefix(body, options);
+    cues.push({ ...timing, speaker, text: cueText.replace(/\n/g, ' ') });
+  });
+
+  if (issues.length > 0) throw new TranscriptParseError(issues);
+  if (cues.length === 0) throw new TranscriptParseError([{ line: 1, message: 'No subtitle cues found' }]);
+  return cues;
+};
+
+export const parseVtt = (text: string, options: TranscriptParseOptions = {}): RawCue[] => {
+  const issues: TranscriptParseIssue[] = [];
+  const cues: RawCue[] = [];
+  const blocks = toBlocks(text);
+
+  if (blocks.length === 0 || !/^WEBVTT(\s|$)/.test(blocks[0].lines[0])) {
+    throw new TranscriptParseError([{ line: 1, message: 'Missing "WEBVTT" header' }]);
+  }
+
+  blocks.slice(1).forEach(block => {
+    if (/^(NOTE|STYLE|REGION)(\s|$)/.test(block.lines[0])) return;
+
+    // Optional cue identifier before the timing line
+    const cursor = block.lines[0].includes(TIMING_ARROW) ? 0 : 1;
+    const timingLine = block.lines[cursor];
+    const timingLineNumber = block.startLine + cursor;
+    if (!timingLine || !timingLine.includes(TIMING_ARROW)) {
+      issues.push({ line: timingLineNumber, message: 'Expected a timing line like "00:01.000 --> 00:02.500"' });
+      return;
+    }
+
+    const timing = parseTimingLine(timingLine, timingLineNumber, issues);
+    if (!timing) return;
+
+    const rawBody = block.lines.slice(cursor + 1).join('\n');
+    const voice = /<v(?:\.[^\s>]*)?\s+([^>]+)>/.exec(rawBody);
+    const body = rawBody
+      .replace(/<[^>]+>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&')
+      .trim();
+    if (!body) {
+      issues.push({ line: timingLineNumber, message: 'Cue has no text' });
+      return;
+    }
+
+    const labelled = voice ? { speaker: voice[1].trim(), text: body } : splitSpeakerPrefix(body, options);
+    cues.push({ ...timing, speaker: labelled.speaker, text: labelled.text.replace(/\n/g, ' ') });
+  });
+
+  if (issues.length > 0) throw new TranscriptParseError(issues);
+  if (cues.length === 0) throw new TranscriptParseError([{ line: 1, message: 'No subtitle cues found' }]);
+  return cues;
+};
+
+// JSON.parse reports a character offset; translate it to a line number
+const lineOfOffset = (text: string, offset: number) => text.slice(0, offset).split('\n').length;
+
+export const parseAnalysisJson = (text: string): VideoAnalysisResult => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (error: any) {
+    const position = /position (\d+)/.exec(error?.message || '');
+    const line = position ? lineOfOffset(text, Number(position[1])) : 1;
+    throw new TranscriptParseError([{ line, message: `Invalid JSON: ${error?.message || 'parse error'}` }]);
+  }
+
+  // Accept a saved project file as well as a bare analysis result
+  const analysis = raw?.format === 'dubstudio-project' ? raw.analysis : raw;
+  const issues: TranscriptParseIssue[] = [];
+  if (!analysis?.metadata) issues.push({ line: 1, message: 'Missing "metadata" object' });
+  if (!Array.isArray(analysis?.speakers)) issues.push({ line: 1, message: 'Missing "speakers" array' });
+  if (!Array.isArray(analysis?.segments)) issues.push({ line: 1, message: 'Missing "segments" array' });
+  if (issues.length > 0) throw new TranscriptParseError(issues);
+
+  return analysis as VideoAnalysisResult;
+};
+
+const cuesToAnalysis = (cues: RawCue[]): { analysis: VideoAnalysisResult; hasSpeakerLabels: boolean } => {
+  const hasSpeakerLabels = cues.some(c => c.speaker);
+  const speakerIds = new Map<string, string>();
+  const speakers: Speaker[] = [];
+
+  const speakerIdFor = (name: string | null) => {
+    const key = name || 'Speaker 1';
+    if (!speakerIds.has(key)) {
+      const id = `spk_${speakerIds.size + 1}`;
+      speakerIds.set(key, id);
+      speakers.push({ id, name: key, voice_tone: 'Unknown' });
+    }
+    return speakerIds.get(key)!;
+  };
+
+  const segments: Segment[] = [...cues]
+    .sort((a, b) => a.start - b.start)
+    .map((cue, index) => ({
+      id: `seg_${index + 1}`,
+      speaker_id: speakerIdFor(cue.speaker),
+      start_time: cue.start,
+      end_time: cue.end,
+      text: cue.text,
+    }));
+
+  return {
+    hasSpeakerLabels,
+    analysis: {
+      metadata: {
+        total_duration: Math.max(0, ...segments.map(s => s.end_time)),
+        detected_language: 'Unknown',
+      },
+      speakers,
+      segments,
+    },
+  };
+};
+
+const detectFormat = (text: string, fileName: string): TranscriptFormat => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'srt' || ext === 'vtt' || ext === 'json') return ext;
+
+  const head = text.replace(/^﻿/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('{')) return 'json';
+  return 'srt';
+};
+
+/**
+ * Parses a transcript file of any supported format.
+ *
+ * @param text File contents
+ * @param fileName Used to pick the parser; content is sniffed if the extension is unknown
+ * @param options How to read speaker labels in SRT/VTT cues
+ * @throws TranscriptParseError with line-numbered issues for malformed input
+ */
+export const parseTranscript = (
+  text: string,
+  fileName: string,
+  options: TranscriptParseOptions = {}
+): ImportedTranscript => {
+  const format = detectFormat(text, fileName);
+  const parsed = format === 'json'
+    ? { analysis: parseAnalysisJson(text), hasSpeakerLabels: true }
+    : cuesToAnalysis(format === 'vtt' ? parseVtt(text, options) : parseSrt(text, options));
+
+  const { result, warnings } = validateAnalysis(parsed.analysis);
+  return { format, analysis: result, hasSpeakerLabels: parsed.hasSpeakerLabels, warnings };
+};
+
+const TIME_TOLERANCE = 0.05;
+
+/**
+ * Seed mode: keeps the transcript's segments exactly (IDs, text, timings) and
+ * takes only the speaker attribution from the analysis. Segments the analysis
+ * did not return by ID get the speaker it heard most over the same time span.
+ * Warns about every segment the analysis dropped, changed or added.
+ */
+export const attributeSpeakers = (
+  transcript: VideoAnalysisResult,
+  analyzed: VideoAnalysisResult
+): ValidatedAnalysis => {
+  const speakerById = new Map(analyzed.segments.map(s => [s.id, s.speaker_id]));
+  const analyzedById = new Map(analyzed.segments.map(s => [s.id, s]));
+  const transcriptIds = new Set(transcript.segments.map(s => s.id));
+
+  const warnings: AnalysisWarning[] = [];
+  transcript.segments.forEach(segment => {
+    const returned = analyzedById.get(segment.id);
+    const at = { segmentId: segment.id, time: segment.start_time };
+    if (!returned) {
+      warnings.push({ action: 'review', message: `The analysis dropped segment "${segment.id}"; its speaker was guessed from the timing.`, ...at });
+    } else if (
+      returned.text.trim() !== segment.text.trim() ||
+      Math.abs(returned.start_time - segment.start_time) > TIME_TOLERANCE ||
+      Math.abs(returned.end_time - segment.end_time) > TIME_TOLERANCE
+    ) {
+      warnings.push({ action: 'repaired', message: `The analysis changed segment "${segment.id}"; the transcript's text and timing were kept.`, ...at });
+    }
+  });
+  const added = analyzed.segments.filter(s => !transcriptIds.has(s.id)).length;
+  if (added > 0) {
+    warnings.push({ action: 'removed', message: `The analysis added ${added} segment(s) that are not in the transcript; they were ignored.` });
+  }
+  const overlapOf = (a: Segment, b: Segment) =>
+    Math.max(0, Math.min(a.end_time, b.end_time) - Math.max(a.start_time, b.start_time));
+
+  const fallbackSpeaker = (segment: Segment): string | undefined => {
+    const totals = new Map<string, number>();
+    analyzed.segments.forEach(s => totals.set(s.speaker_id, (totals.get(s.speaker_id) || 0) + overlapOf(segment, s)));
+    const [best] = [...totals.entries()].filter(([, total]) => total > 0).sort((a, b) => b[1] - a[1]);
+    return best?.[0] ?? analyzed.speakers[0]?.id;
+  };
+
+  const segments = transcript.segments.map(segment => ({
+    ...segment,
+    speaker_id: speakerById.get(segment.id) ?? fallbackSpeaker(segment) ?? segment.speaker_id,
+  }));
+  const speakers = [...analyzed.speakers];
+  // Only reachable when the analysis returned no speakers at all
+  transcript.speakers.forEach(sp => {
+    if (!speakers.some(s => s.id === sp.id) && segments.some(s => s.speaker_id === sp.id)) speakers.push(sp);
+  });
+
+  return {
+    result: {
+      ...transcript,
+      metadata: {
+        total_duration: Math.max(transcript.metadata.total_duration, analyzed.metadata.total_duration),
+        detected_language: analyzed.metadata.detected_language || transcript.metadata.detected_language,
+      },
+      speakers: speakers.filter(sp => segments.some(s => s.speaker_id === sp.id)),
+      segments,
+    },
+    warnings,
+  };
+};
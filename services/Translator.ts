@@ -0,0 +1,141 @@
+/**
+ * Translator.ts
+ * Translates transcript segments into the dubbing target language.
+ * Providers are pluggable; Gemini is the default.
+ */
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { Segment, Speaker } from "../types";
+
+export interface TranslationRequest {
+  segments: Segment[];
+  speakers: Speaker[];
+  sourceLanguage: string;
+  targetLanguage: string; // human readable name, e.g. "Spanish"
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  /**
+   * @returns Map of segment ID -> translated text. Segments missing from the
+   *          map are treated as failed and keep no translation.
+   */
+  translate(request: TranslationRequest): Promise<Record<string, string>>;
+}
+
+export const TARGET_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'hi', label: 'Hindi' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'ko', label: 'Korean' },
+  { code: 'zh', label: 'Chinese (Mandarin)' },
+  { code: 'ar', label: 'Arabic' },
+  { code: 'ru', label: 'Russian' },
+];
+
+export const getLanguageLabel = (code: string) =>
+  TARGET_LANGUAGES.find(l => l.code === code)?.label || code;
+
+// Segments per request; keeps responses well under output token limits
+const BATCH_SIZE = 40;
+
+const translationSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING, description: "The segment id, unchanged." },
+      text: { type: Type.STRING, description: "The translated text." },
+    },
+    required: ["id", "text"],
+  },
+};
+
+export class GeminiTranslationProvider implements TranslationProvider {
+  readonly name = 'Gemini';
+
+  constructor(private model = 'gemini-3-pro-preview') {}
+
+  async translate(request: TranslationRequest): Promise<Record<string, string>> {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API Key is missing in process.env.API_KEY");
+    }
+
+    const ai = new GoogleGenAI({ apiKey });
+
+    const systemInstruction = `You translate dialogue for video dubbing from ${request.sourceLanguage} to ${request.targetLanguage}.
+1. Translate each segment independently but keep terminology consistent across segments.
+2. Keep the spoken length close to the original so the dub fits the same time slot.
+3. Match each speaker's register and tone.
+4. Return every segment id exactly once. Output PURE JSON only.`;
+
+    const payload = request.segments.map(s => ({
+      id: s.id,
+      speaker: request.speakers.find(sp => sp.id === s.speaker_id)?.voice_tone || '',
+      duration_seconds: Number((s.end_time - s.start_time).toFixed(1)),
+      text: s.text,
+    }));
+
+    const response = await ai.models.generateContent({
+      model: this.model,
+      contents: { parts: [{ text: JSON.stringify(payload) }] },
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: translationSchema,
+        temperature: 0.3,
+      },
+    });
+
+    const responseText = response.text?.replace(/```json/g, '').replace(/```/g, '').trim();
+    if (!responseText) {
+      throw new Error("No response received from the translation model.");
+    }
+
+    const items = JSON.parse(responseText) as { id: string; text: string }[];
+    return Object.fromEntries(items.map(item => [item.id, item.text]));
+  }
+}
+
+let activeProvider: TranslationProvider = new GeminiTranslationProvider();
+
+/**
+ * Swap the translation backend (e.g. for a self-hosted MT service).
+ */
+export const setTranslationProvider = (provider: TranslationProvider) => {
+  activeProvider = provider;
+};
+
+export const getTranslationProvider = () => activeProvider;
+
+/**
+ * Translates all segments in batches.
+ *
+ * @returns Segment ID -> translated text, plus the IDs the provider skipped
+ */
+export const translateSegments = async (
+  request: TranslationRequest,
+  onProgress?: (done: number, total: number) => void,
+  provider: TranslationProvider = activeProvider
+): Promise<{ texts: Record<string, string>; missing: string[] }> => {
+  const translations: Record<string, string> = {};
+  const total = request.segments.length;
+
+  for (let i = 0; i < total; i += BATCH_SIZE) {
+    const batch = request.segments.slice(i, i + BATCH_SIZE);
+    Object.assign(translations, await provider.translate({ ...request, segments: batch }));
+    onProgress?.(Math.min(i + BATCH_SIZE, total), total);
+  }
+
+  const missing = request.segments.filter(s => !translations[s.id]).map(s => s.id);
+  const texts = Object.fromEntries(
+    request.segments.filter(s => translations[s.id]).map(s => [s.id, translations[s.id]])
+  );
+
+  return { texts, missing };
+};
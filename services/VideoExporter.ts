@@ -0,0 +1,158 @@
+/**
+ * VideoExporter.ts
+ * Muxes the original video frames with a rendered dub track entirely in the
+ * browser, by replaying the video in real time into a MediaRecorder.
+ */
+
+export interface VideoExportOptions {
+  // Level of the original soundtrack under the dub (0 = replace entirely)
+  originalAudioGain: number;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface VideoExportResult {
+  blob: Blob;
+  mimeType: string;
+  extension: 'webm' | 'mp4';
+}
+
+// Preference order; the first one the browser can record is used
+const CANDIDATE_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4',
+];
+
+export const getSupportedExportMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return CANDIDATE_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+type CapturableVideo = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+/**
+ * Records the video with the dub track as its soundtrack.
+ * Runs in real time: a 10 minute video takes about 10 minutes to export.
+ *
+ * @param videoFile The original video
+ * @param dubTrack Rendered dub, aligned to t=0 of the video
+ */
+export const exportDubbedVideo = (
+  videoFile: File,
+  dubTrack: AudioBuffer,
+  options: VideoExportOptions
+): Promise<VideoExportResult> => {
+  const mimeType = getSupportedExportMimeType();
+  if (!mimeType) {
+    return Promise.reject(new Error('This browser cannot record video (MediaRecorder unsupported).'));
+  }
+
+  return new Promise<VideoExportResult>((resolve, reject) => {
+    const videoUrl = URL.createObjectURL(videoFile);
+    const video = document.createElement('video') as CapturableVideo;
+    video.src = videoUrl;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    const ctx = new AudioContext();
+    const audioDestination = ctx.createMediaStreamDestination();
+    let recorder: MediaRecorder | null = null;
+    let dubSource: AudioBufferSourceNode | null = null;
+    // stop() throws on a source that never started (play failed or export aborted first)
+    let dubStarted = false;
+    let settled = false;
+    const chunks: Blob[] = [];
+
+    const cleanup = () => {
+      options.signal?.removeEventListener('abort', handleAbort);
+      video.pause();
+      if (dubStarted) dubSource?.stop();
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(videoUrl);
+      ctx.close();
+    };
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      if (recorder && recorder.state !== 'inactive') recorder.stop();
+      cleanup();
+      reject(error);
+    };
+
+    function handleAbort() {
+      fail(new DOMException('Video export cancelled', 'AbortError') as unknown as Error);
+    }
+
+    if (options.signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    options.signal?.addEventListener('abort', handleAbort);
+
+    video.onerror = () => fail(new Error('The source video could not be played for export.'));
+
+    video.onloadedmetadata = async () => {
+      try {
+        const capture = video.captureStream?.bind(video) || video.mozCaptureStream?.bind(video);
+        if (!capture) {
+          throw new Error('This browser cannot capture video frames (captureStream unsupported).');
+        }
+
+        // Routing the element through Web Audio keeps it off the speakers
+        // and lets us control how much of the original survives
+        const originalSource = ctx.createMediaElementSource(video);
+        const originalGain = ctx.createGain();
+        originalGain.gain.value = options.originalAudioGain;
+        originalSource.connect(originalGain).connect(audioDestination);
+
+        dubSource = ctx.createBufferSource();
+        dubSource.buffer = dubTrack;
+        dubSource.connect(audioDestination);
+
+        const stream = new MediaStream([
+          ...capture().getVideoTracks(),
+          ...audioDestination.stream.getAudioTracks(),
+        ]);
+
+        recorder = new MediaRecorder(stream, { mimeType });
+        recorder.ondataavailable = (e) => {
+          if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.onstop = () => {
+          if (settled) return;
+          settled = true;
+          cleanup();
+          options.onProgress?.(1);
+          resolve({
+            blob: new Blob(chunks, { type: mimeType }),
+            mimeType,
+            extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm',
+          });
+        };
+
+        video.ontimeupdate = () => {
+          if (video.duration > 0) options.onProgress?.(video.currentTime / video.duration);
+        };
+        video.onended = () => recorder?.stop();
+
+        await ctx.resume();
+        if (settled) return;
+        recorder.start(1000);
+        await video.play();
+        if (settled) return;
+        dubSource.start();
+        dubStarted = true;
+      } catch (error: any) {
+        fail(error instanceof Error ? error : new Error(String(error)));
+      }
+    };
+  });
+};
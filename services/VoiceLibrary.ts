@@ -0,0 +1,125 @@
+/**
+ * VoiceLibrary.ts
+ * Persistent, cross-project collection of voices: clones saved from earlier
+ * projects (with their reference clip) plus the providers' stock voices.
+ * Assigning a library voice to a speaker replaces cloning it again; a saved
+ * clone the provider has since dropped can be cloned again from its clip.
+ */
+import { ProviderId, ProviderVoice, isProviderId } from './VoiceProvider';
+
+const DB_NAME = 'dubstudio-voices';
+const DB_VERSION = 1;
+const VOICE_STORE = 'voices';
+
+export interface LibraryVoice {
+  id: string;
+  name: string;
+  // Service the voice ID belongs to
+  provider: ProviderId;
+  voice_id: string;
+  tags: string[];
+  // Clip the voice was cloned from, kept so it can be cloned again if the provider drops the voice
+  reference?: Blob;
+  // Built into the provider; not stored and cannot be deleted
+  stock?: boolean;
+  created_at: string;
+}
+
+/**
+ * Library entry for one of a provider's built-in voices.
+ */
+export const toStockVoice = (provider: ProviderId, voice: ProviderVoice): LibraryVoice => ({
+  ...voice,
+  id: `stock_${provider}_${voice.voice_id}`,
+  provider,
+  stock: true,
+  created_at: '',
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(VOICE_STORE)) db.createObjectStore(VOICE_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(VOICE_STORE, mode);
+    const request = operation(tx.objectStore(VOICE_STORE));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * Splits a comma separated tag string into trimmed, lower-case, unique tags.
+ */
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean))];
+
+/**
+ * Case-insensitive match against the name and tags of a voice.
+ */
+export const matchesVoice = (voice: LibraryVoice, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return voice.name.toLowerCase().includes(q) || voice.tags.some(tag => tag.includes(q));
+};
+
+export const VoiceLibrary = {
+  /**
+   * Saved voices, newest first.
+   */
+  list: async (): Promise<LibraryVoice[]> => {
+    const voices = await runRequest<LibraryVoice[]>('readonly', store => store.getAll());
+    return voices
+      // Voices saved from the former mock mode now belong to the local provider
+      .map(voice => (isProviderId(voice.provider) ? voice : { ...voice, provider: 'local' as const }))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+
+  save: async (voice: Omit<LibraryVoice, 'id' | 'created_at' | 'stock'>): Promise<LibraryVoice> => {
+    const saved: LibraryVoice = {
+      ...voice,
+      id: `voice_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+      created_at: new Date().toISOString(),
+    };
+    await runRequest('readwrite', store => store.put(saved));
+    return saved;
+  },
+
+  /**
+   * Replaces a saved voice, keeping its id and creation date.
+   */
+  update: async (voice: LibraryVoice): Promise<LibraryVoice> => {
+    await runRequest('readwrite', store => store.put(voice));
+    return voice;
+  },
+
+  remove: (id: string) =>
+    runRequest('readwrite', store => store.delete(id)),
+};
@@ -1,140 +1,157 @@
 
 /**
  * VoiceManager.ts
- * Handles interactions with MiniMax API for Voice Cloning and Text-to-Speech.
+ * Keeps track of each speaker's voice and routes cloning and Text-to-Speech
+ * to the provider that voice belongs to (MiniMax, ElevenLabs or local).
  */
+import {
+  VoiceProvider,
+  ProviderId,
+  VoiceRef,
+  SpeechOptions,
+  formatVoiceRef,
+  parseVoiceRef,
+  isProviderId,
+} from './VoiceProvider';
+import { MiniMaxProvider } from './MiniMaxProvider';
+import { ElevenLabsProvider } from './ElevenLabsProvider';
+import { LocalVoiceProvider } from './LocalVoiceProvider';
+
+// Audio URL of takes made by the former mock mode; still rendered as a placeholder tone
+export const MOCK_AUDIO_URL = 'mock_audio_url';
 
 class VoiceManagerService {
-  private apiKey: string | undefined;
-  private baseUrl = 'https://api.minimax.chat/v1';
-  // In-memory map: SpeakerID -> MiniMax VoiceID
-  private voiceMap: Map<string, string> = new Map();
+  private providers: Record<ProviderId, VoiceProvider>;
+  // In-memory map: SpeakerID -> voice and its provider
+  private voiceMap: Map<string, VoiceRef> = new Map();
 
   constructor() {
-    // Ideally use a specific key for MiniMax, falling back to the main key or undefined
-    this.apiKey = process.env.MINIMAX_API_KEY; 
+    this.providers = {
+      minimax: new MiniMaxProvider(process.env.MINIMAX_API_KEY),
+      elevenlabs: new ElevenLabsProvider(process.env.ELEVENLABS_API_KEY),
+      local: new LocalVoiceProvider(),
+    };
+  }
+
+  public getProvider(id: ProviderId): VoiceProvider {
+    return this.providers[id];
+  }
+
+  /**
+   * Providers in menu order; unconfigured ones are included so they can be shown disabled.
+   */
+  public listProviders(): VoiceProvider[] {
+    return Object.values(this.providers);
+  }
+
+  /**
+   * Provider for projects that don't choose one: the first with credentials, else local.
+   */
+  public getDefaultProviderId(): ProviderId {
+    if (this.providers.minimax.isConfigured()) return 'minimax';
+    if (this.providers.elevenlabs.isConfigured()) return 'elevenlabs';
+    return 'local';
   }
 
   /**
-   * Returns true if we are running in mock mode (no API key).
+   * First provider among the preferences (speaker's, then project's), else the default.
+   * A chosen provider is kept even without credentials: cloning then fails with
+   * an error instead of quietly moving the voice to another provider.
    */
-  public isMockMode(): boolean {
-    return !this.apiKey || this.apiKey === 'mock-key';
+  public resolveProviderId(...preferred: (string | undefined)[]): ProviderId {
+    const id = preferred.find(isProviderId);
+    return id ?? this.getDefaultProviderId();
+  }
+
+  /**
+   * Speaking rates the speaker's voice can be synthesized at.
+   */
+  public getSpeedRange(speakerId: string): [min: number, max: number] {
+    const voice = this.voiceMap.get(speakerId);
+    return this.providers[voice?.provider ?? this.getDefaultProviderId()].capabilities.speedRange;
   }
 
   /**
    * Registers a voice by uploading a reference audio clip.
-   * 
+   *
    * @param speakerId The internal ID (e.g., 'spk_1')
    * @param referenceAudio The WAV blob extracted from the video
+   * @param providerId Provider to clone with
    * @returns The generated Voice ID
    */
-  public async registerVoice(speakerId: string, referenceAudio: Blob): Promise<string> {
-    // 1. Check Mock Mode
-    if (this.isMockMode()) {
-      console.log(`[Mock VoiceManager] Cloning voice for ${speakerId}...`);
-      await new Promise(r => setTimeout(r, 1500)); // Simulate latency
-      const mockVoiceId = `mock_voice_${speakerId}_${Date.now()}`;
-      this.voiceMap.set(speakerId, mockVoiceId);
-      return mockVoiceId;
-    }
-
-    // 2. Real API Call (MiniMax Voice Cloning / File Upload)
-    try {
-      const formData = new FormData();
-      formData.append('file', referenceAudio, `reference_${speakerId}.wav`);
-      formData.append('purpose', 'voice_cloning');
-
-      // Note: Endpoint depends on specific MiniMax product (Files Upload vs dedicated cloning)
-      // This uses a generic file upload pattern common in these APIs
-      const response = await fetch(`${this.baseUrl}/files/upload`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error(`MiniMax Upload Failed: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      // Assuming response contains { file_id: "..." } which acts as voice_id for dynamic T2A
-      const voiceId = data.file_id || data.voice_id; 
-      
-      if (!voiceId) throw new Error("No voice ID returned from API");
-
-      this.voiceMap.set(speakerId, voiceId);
-      return voiceId;
-    } catch (error) {
-      console.error("Voice Registration Error:", error);
-      throw error;
+  public async registerVoice(speakerId: string, referenceAudio: Blob, providerId: ProviderId): Promise<string> {
+    const provider = this.providers[providerId];
+    if (!provider.isConfigured()) {
+      throw new Error(`${provider.label} is not configured.`);
     }
+    const voiceId = await provider.registerVoice(speakerId, referenceAudio);
+    this.voiceMap.set(speakerId, { provider: providerId, voiceId });
+    return voiceId;
   }
 
   /**
-   * Generates speech for a specific text using the cloned voice.
-   * 
+   * Generates speech for a specific text using the speaker's voice.
+   *
    * @param text The text to speak
    * @param speakerId The internal speaker ID to look up the voice for
+   * @param options Optional voice settings: speed, volume, pitch and emotion
    */
-  public async generateSpeech(text: string, speakerId: string): Promise<string> {
-    const voiceId = this.voiceMap.get(speakerId);
-    
-    if (!voiceId) {
-      throw new Error(`No voice registered for speaker ${speakerId}`);
-    }
+  public async generateSpeech(text: string, speakerId: string, options: SpeechOptions = {}): Promise<string> {
+    const voice = this.voiceMap.get(speakerId);
 
-    // 1. Mock Mode
-    if (this.isMockMode() || voiceId.startsWith('mock_')) {
-      console.log(`[Mock VoiceManager] Synthesizing "${text}" with ${voiceId}`);
-      await new Promise(r => setTimeout(r, 1000));
-      // Return a dummy beep or silent blob for demo purposes if real generation isn't possible
-      return "mock_audio_url"; 
+    if (!voice) {
+      throw new Error(`No voice registered for speaker ${speakerId}`);
     }
 
-    // 2. Real API Call (T2A)
-    try {
-      const payload = {
-        model: "speech-01",
-        text: text,
-        voice_setting: {
-            voice_id: voiceId,
-            speed: 1.0,
-            vol: 1.0
-        }
-      };
-
-      const response = await fetch(`${this.baseUrl}/t2a_v2`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        throw new Error(`TTS Generation Failed: ${response.statusText}`);
-      }
-
-      // MiniMax returns audio stream usually.
-      const audioBlob = await response.blob();
-      return URL.createObjectURL(audioBlob);
-
-    } catch (error) {
-      console.error("TTS Generation Error:", error);
-      throw error;
+    const provider = this.providers[voice.provider];
+    if (!provider.isConfigured()) {
+      throw new Error(`${provider.label} is not configured.`);
     }
+    return provider.synthesize(text, voice.voiceId, options);
   }
 
   /**
-   * Get the registered voice ID for a speaker
+   * Get the registered voice for a speaker
    */
-  public getVoiceId(speakerId: string): string | undefined {
+  public getVoice(speakerId: string): VoiceRef | undefined {
     return this.voiceMap.get(speakerId);
   }
+
+  /**
+   * Assigns an existing voice to a speaker without cloning.
+   */
+  public setVoice(speakerId: string, voice: VoiceRef): void {
+    this.voiceMap.set(speakerId, voice);
+  }
+
+  /**
+   * Forget a speaker's voice so it is cloned again.
+   */
+  public removeVoice(speakerId: string): void {
+    this.voiceMap.delete(speakerId);
+  }
+
+  /**
+   * Snapshot of all speaker -> voice mappings, for saving projects.
+   */
+  public exportVoiceMap(): Record<string, string> {
+    return Object.fromEntries([...this.voiceMap].map(([speakerId, voice]) => [speakerId, formatVoiceRef(voice)]));
+  }
+
+  /**
+   * Restores mappings from a saved project. Existing entries are kept
+   * unless overwritten by the imported map.
+   */
+  public importVoiceMap(map: Record<string, string>): void {
+    Object.entries(map).forEach(([speakerId, voice]) => this.voiceMap.set(speakerId, parseVoiceRef(voice)));
+  }
+
+  /**
+   * Forget all registered voices (e.g. when a new video is loaded).
+   */
+  public clear(): void {
+    this.voiceMap.clear();
+  }
 }
 
 export const VoiceManager = new VoiceManagerService();
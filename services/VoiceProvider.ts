@@ -0,0 +1,83 @@
+/**
+ * VoiceProvider.ts
+ * Contract between VoiceManager and the TTS / voice cloning services it can use.
+ */
+import { VoiceEmotion, VoiceSettings } from '../types';
+
+export type ProviderId = 'minimax' | 'elevenlabs' | 'local';
+
+export const PROVIDER_IDS: ProviderId[] = ['minimax', 'elevenlabs', 'local'];
+
+// Speaker/segment voice settings, plus the faster speed chosen by duration fitting
+export type SpeechOptions = VoiceSettings;
+
+// Setting ranges offered in the editor; providers map them onto their own scales
+export const MIN_SPEECH_SPEED = 0.5;
+export const MAX_SPEECH_SPEED = 2.0;
+export const MIN_SPEECH_PITCH = -12;
+export const MAX_SPEECH_PITCH = 12;
+export const SPEECH_EMOTIONS: VoiceEmotion[] = ['neutral', 'happy', 'sad', 'angry', 'fearful', 'disgusted', 'surprised'];
+
+export interface ProviderCapabilities {
+  // Can create a voice from a reference clip
+  cloning: boolean;
+  // Which VoiceSettings fields are honoured; others are ignored
+  speed: boolean;
+  volume: boolean;
+  pitch: boolean;
+  emotion: boolean;
+  // Speaking rates the provider accepts; faster or slower requests are clamped to it
+  speedRange: [min: number, max: number];
+}
+
+// A ready-made voice offered by the provider
+export interface ProviderVoice {
+  voice_id: string;
+  name: string;
+  tags: string[];
+}
+
+export interface VoiceProvider {
+  id: ProviderId;
+  label: string;
+  capabilities: ProviderCapabilities;
+  // False when credentials are missing; unconfigured providers are not offered
+  isConfigured(): boolean;
+  /**
+   * Creates a voice from a reference clip and returns its provider voice ID.
+   */
+  registerVoice(name: string, referenceAudio: Blob): Promise<string>;
+  /**
+   * Speaks `text` with the voice and returns a playable (object) URL.
+   */
+  synthesize(text: string, voiceId: string, options: SpeechOptions): Promise<string>;
+  listVoices(): Promise<ProviderVoice[]>;
+}
+
+// A voice and the provider it belongs to
+export interface VoiceRef {
+  provider: ProviderId;
+  voiceId: string;
+}
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  PROVIDER_IDS.includes(value as ProviderId);
+
+/**
+ * Voice maps store refs as `provider:voiceId`.
+ */
+export const formatVoiceRef = (ref: VoiceRef): string => `${ref.provider}:${ref.voiceId}`;
+
+/**
+ * Parses a stored voice ref. Entries from before providers existed hold a bare
+ * ID: `mock_` IDs came from the mock mode (now the local provider), the rest
+ * are MiniMax voices.
+ */
+export const parseVoiceRef = (value: string): VoiceRef => {
+  const separator = value.indexOf(':');
+  const prefix = separator > 0 ? value.slice(0, separator) : '';
+  if (isProviderId(prefix)) return { provider: prefix, voiceId: value.slice(separator + 1) };
+  return { provider: value.startsWith('mock_') ? 'local' : 'minimax', voiceId: value };
+};
+
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
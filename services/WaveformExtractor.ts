@@ -0,0 +1,24 @@
+/**
+ * WaveformExtractor.ts
+ * Reduces the source video's soundtrack to a compact peak envelope for the
+ * timeline waveform lane.
+ */
+import { SourceAudioCache } from './SourceAudioCache';
+
+export interface WaveformData {
+  // Peak absolute amplitude (0..1) per bucket, all channels combined
+  peaks: Float32Array;
+  peaksPerSecond: number;
+  duration: number;
+}
+
+const PEAKS_PER_SECOND = 100;
+
+export const extractWaveform = async (videoFile: File): Promise<WaveformData> => {
+  const { peaks, duration } = await SourceAudioCache.getPeaks(videoFile, PEAKS_PER_SECOND);
+  return {
+    peaks,
+    peaksPerSecond: PEAKS_PER_SECOND,
+    duration,
+  };
+};
@@ -2,6 +2,10 @@ export interface Speaker {
   id: string;
   name: string;
   voice_tone: string;
+  // Defaults for all of this speaker's segments
+  voice_settings?: VoiceSettings;
+  // Voice provider ID (see services/VoiceProvider); unset uses the project's
+  voice_provider?: string;
 }
 
 export interface Segment {
@@ -10,6 +14,21 @@ export interface Segment {
   start_time: number;
   end_time: number;
   text: string;
+  // Overrides the speaker's voice_settings field by field
+  voice_settings?: VoiceSettings;
+}
+
+export type VoiceEmotion = 'neutral' | 'happy' | 'sad' | 'angry' | 'fearful' | 'disgusted' | 'surprised';
+
+/**
+ * How a line is spoken. Unset fields use the provider's defaults.
+ * Ranges are in services/VoiceProvider.
+ */
+export interface VoiceSettings {
+  speed?: number; // rate multiplier, 1 = normal
+  volume?: number; // gain multiplier, 1 = normal
+  pitch?: number; // semitones
+  emotion?: VoiceEmotion;
 }
 
 export interface VideoMetadata {
@@ -21,6 +40,21 @@ export interface VideoAnalysisResult {
   metadata: VideoMetadata;
   speakers: Speaker[];
   segments: Segment[];
+  // Translated dubbing scripts, one per target language
+  tracks?: DubTrack[];
+  // Language code of the track being edited/previewed; unset means the original language
+  active_track?: string;
+  // Voice provider ID for the project; unset uses the first configured provider
+  voice_provider?: string;
+}
+
+/**
+ * A dubbing track: the translated script for every segment in one language.
+ * Timing and speakers are shared with the original segments.
+ */
+export interface DubTrack {
+  language: string; // code from Translator.TARGET_LANGUAGES, e.g. 'es'
+  texts: Record<string, string>; // segment ID -> translated text
 }
 
 export enum AnalysisStatus {
@@ -28,4 +62,117 @@ export enum AnalysisStatus {
   ANALYZING = 'ANALYZING',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR',
+}
+
+/**
+ * A synthesized line for a single segment, kept so it can be replayed,
+ * exported or rendered without calling the TTS provider again.
+ */
+export interface GeneratedTake {
+  segment_id: string;
+  speaker_id: string;
+  language?: string; // DubTrack language, absent for the original-language track
+  text: string;
+  audio_url: string;
+  created_at: string;
+  // Resolved speaker + segment settings the take was requested with
+  voice_settings?: VoiceSettings;
+  // Duration fitting results, see services/DurationFitter
+  duration?: number; // seconds, as placed on the timeline
+  speed?: number; // provider speed the take was synthesized at
+  stretched?: boolean; // locally time-stretched after synthesis
+  overflow?: number; // seconds the take runs past segment end_time (0 if it fits)
+}
+
+/**
+ * Identifies the video a project was created from. The media itself is not
+ * embedded in project files; it is re-linked by the user on import.
+ */
+export interface ProjectSource {
+  name: string;
+  size: number;
+  type: string;
+  last_modified: number;
+  hash?: string; // SHA-256 of the head of the file, see SessionStore.fingerprintFile
+}
+
+export interface BundledAudio {
+  mime_type: string;
+  data: string; // base64, no data: prefix
+}
+
+export interface ProjectTake extends Omit<GeneratedTake, 'audio_url'> {
+  audio?: BundledAudio;
+}
+
+/**
+ * On-disk project format (.dubstudio.json).
+ * Bump CURRENT_PROJECT_VERSION in ProjectSerializer and add a migration
+ * whenever this shape changes.
+ */
+export interface DubProject {
+  format: 'dubstudio-project';
+  version: number;
+  saved_at: string;
+  source: ProjectSource | null;
+  analysis: VideoAnalysisResult;
+  voice_map: Record<string, string>;
+  takes: ProjectTake[];
+  // Undo/redo stack; only kept in the autosaved session, not in exported files
+  history?: EditHistory;
+}
+
+/**
+ * A change to one entity in an edit command. A null side means the entity
+ * does not exist on that side (it was added or removed).
+ */
+export interface EntityChange<T> {
+  id: string;
+  before: T | null;
+  after: T | null;
+  // Position in the list on the side where the entity exists; set for additions and removals only
+  index?: number;
+}
+
+export interface TrackTextChange {
+  language: string;
+  segment_id: string;
+  before: string | null;
+  after: string | null;
+}
+
+// A speaker's entry in the voice map, as "provider:voiceId" (see services/VoiceManager)
+export interface VoiceMapChange {
+  speaker_id: string;
+  before: string | null;
+  after: string | null;
+}
+
+// A generated take, keyed as in the session's take map
+export interface TakeChange {
+  key: string;
+  before: GeneratedTake | null;
+  after: GeneratedTake | null;
+}
+
+/**
+ * One undoable edit, stored as a diff of the analysis so the history can be
+ * saved with the session. See services/EditHistory.
+ */
+export interface EditCommand {
+  id: string;
+  label: string;
+  created_at: string;
+  segments?: EntityChange<Segment>[];
+  speakers?: EntityChange<Speaker>[];
+  texts?: TrackTextChange[];
+  // Session state outside the analysis that the edit changed with it
+  voices?: VoiceMapChange[];
+  // Take audio URLs only live as long as the page, so these are not saved
+  takes?: TakeChange[];
+}
+
+export interface EditHistory {
+  past: EditCommand[]; // oldest first
+  future: EditCommand[]; // next redo first
 }
\ No newline at end of file
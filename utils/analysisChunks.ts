@@ -0,0 +1,166 @@
+import { Segment, Speaker, VideoAnalysisResult } from '../types';
+
+/**
+ * Splitting long media into overlapping time windows and stitching the
+ * per-window analyses back into one result.
+ */
+
+export interface AnalysisWindow {
+  start: number;
+  end: number;
+}
+
+export interface ChunkAnalysis {
+  window: AnalysisWindow;
+  // Times are absolute (seconds from the start of the media)
+  result: VideoAnalysisResult;
+}
+
+/**
+ * Windows of at most `chunkSeconds`, each overlapping the previous one by `overlapSeconds`.
+ */
+export const planAnalysisWindows = (
+  duration: number,
+  chunkSeconds: number,
+  overlapSeconds: number
+): AnalysisWindow[] => {
+  if (duration <= chunkSeconds) return [{ start: 0, end: duration }];
+  const step = chunkSeconds - overlapSeconds;
+  const windows: AnalysisWindow[] = [];
+  for (let start = 0; start < duration - overlapSeconds; start += step) {
+    windows.push({ start, end: Math.min(duration, start + chunkSeconds) });
+  }
+  return windows;
+};
+
+/**
+ * Offset that turns a window's times into absolute ones. Models usually answer
+ * relative to the clip; results that only fit the window as absolute times get 0.
+ */
+export const clipOffset = (result: VideoAnalysisResult, window: AnalysisWindow): number => {
+  const length = window.end - window.start;
+  const latestEnd = Math.max(0, ...result.segments.map(s => s.end_time));
+  const earliestStart = Math.min(Infinity, ...result.segments.map(s => s.start_time));
+  const isAbsolute = window.start > 0 && latestEnd > length + 1 && earliestStart >= window.start - 1;
+  return isAbsolute ? 0 : window.start;
+};
+
+export const shiftTimes = (result: VideoAnalysisResult, offset: number): VideoAnalysisResult => ({
+  ...result,
+  segments: result.segments.map(s => ({
+    ...s,
+    start_time: s.start_time + offset,
+    end_time: s.end_time + offset,
+  })),
+});
+
+const overlapOf = (a: Segment, b: Segment) =>
+  Math.max(0, Math.min(a.end_time, b.end_time) - Math.max(a.start_time, b.start_time));
+
+const sameName = (a: Speaker, b: Speaker) => !!a.name.trim() && a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+
+/**
+ * Maps each speaker of a chunk to a global speaker. Speakers heard in the overlap
+ * with the previous chunk are matched by how much their speech coincides there;
+ * the rest by name; anything left becomes a new speaker.
+ */
+const reconcileSpeakers = (
+  chunk: ChunkAnalysis,
+  previous: Segment[],
+  speakers: Speaker[]
+): Record<string, string> => {
+  const localSpeakers = [...chunk.result.speakers];
+  // Segments may reference speakers the model forgot to list
+  chunk.result.segments.forEach(s => {
+    if (!localSpeakers.some(sp => sp.id === s.speaker_id)) {
+      localSpeakers.push({ id: s.speaker_id, name: s.speaker_id, voice_tone: '' });
+    }
+  });
+
+  const scores: { local: string; global: string; score: number }[] = [];
+  localSpeakers.forEach(local => {
+    const totals: Record<string, number> = {};
+    chunk.result.segments
+      .filter(s => s.speaker_id === local.id)
+      .forEach(s => previous.forEach(p => (totals[p.speaker_id] = (totals[p.speaker_id] || 0) + overlapOf(s, p))));
+    Object.entries(totals).forEach(([global, score]) => score > 0 && scores.push({ local: local.id, global, score }));
+  });
+  scores.sort((a, b) => b.score - a.score);
+
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+  scores.forEach(({ local, global }) => {
+    if (mapping[local] || used.has(global)) return;
+    mapping[local] = global;
+    used.add(global);
+  });
+
+  localSpeakers.forEach(local => {
+    if (mapping[local.id]) return;
+    const byName = speakers.find(g => !used.has(g.id) && sameName(g, local));
+    if (byName) {
+      mapping[local.id] = byName.id;
+      used.add(byName.id);
+      return;
+    }
+    const id = `spk_${speakers.length + 1}`;
+    speakers.push({ ...local, id });
+    mapping[local.id] = id;
+    used.add(id);
+  });
+  return mapping;
+};
+
+/**
+ * Merges per-window analyses into one result. Each window keeps the segments
+ * centred in its half of the overlaps, so speech in an overlap is kept once.
+ *
+ * @param preserveSegmentIds Keep the model's segment IDs (they came from a
+ *   seeding transcript); otherwise segments are renumbered in time order.
+ */
+export const stitchAnalysisChunks = (
+  chunks: ChunkAnalysis[],
+  totalDuration: number,
+  preserveSegmentIds = false
+): VideoAnalysisResult => {
+  const speakers: Speaker[] = [];
+  const segments: Segment[] = [];
+  const seenIds = new Set<string>();
+  const languageVotes: Record<string, number> = {};
+  // Previous chunk's segments with global speaker IDs, for matching across the overlap
+  let previous: Segment[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const mapping = reconcileSpeakers(chunk, previous, speakers);
+    const mapped = chunk.result.segments.map(s => ({ ...s, speaker_id: mapping[s.speaker_id] }));
+
+    const prevWindow = chunks[index - 1]?.window;
+    const nextWindow = chunks[index + 1]?.window;
+    const ownStart = prevWindow ? (chunk.window.start + prevWindow.end) / 2 : -Infinity;
+    const ownEnd = nextWindow ? (nextWindow.start + chunk.window.end) / 2 : Infinity;
+    mapped.forEach(s => {
+      const centre = (s.start_time + s.end_time) / 2;
+      if (centre < ownStart || centre >= ownEnd) return;
+      if (preserveSegmentIds && seenIds.has(s.id)) return;
+      seenIds.add(s.id);
+      segments.push(s);
+    });
+
+    const language = chunk.result.metadata?.detected_language;
+    if (language && language !== 'unknown') languageVotes[language] = (languageVotes[language] || 0) + chunk.result.segments.length;
+    previous = mapped;
+  });
+
+  segments.sort((a, b) => a.start_time - b.start_time);
+  const detected = Object.entries(languageVotes).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  return {
+    metadata: {
+      total_duration: Math.max(totalDuration, ...segments.map(s => s.end_time)),
+      detected_language: detected || 'unknown',
+    },
+    // Speakers whose speech was all in the other window's half of an overlap are dropped
+    speakers: speakers.filter(sp => segments.some(s => s.speaker_id === sp.id)),
+    segments: preserveSegmentIds ? segments : segments.map((s, i) => ({ ...s, id: `seg_${i + 1}` })),
+  };
+};
@@ -1,33 +1,25 @@
 
+// Frames converted per Blob part, so no single allocation spans the whole file
+const WAV_CHUNK_FRAMES = 1 << 18;
+
 /**
- * Converts an AudioBuffer to a WAV Blob (16-bit PCM).
+ * Converts an AudioBuffer to a WAV Blob (16-bit PCM), reading the channels in
+ * place rather than copying them first.
+ *
+ * @param length Frames to encode from the start of the buffer (default: all)
  */
-const audioBufferToWav = (buffer: AudioBuffer): Blob => {
+export const audioBufferToWav = (buffer: AudioBuffer, length: number = buffer.length): Blob => {
   const numChannels = buffer.numberOfChannels;
   const sampleRate = buffer.sampleRate;
   const format = 1; // PCM
   const bitDepth = 16;
-  
-  let result: Float32Array;
-  
-  // Interleave channels if necessary
-  if (numChannels === 2) {
-    const left = buffer.getChannelData(0);
-    const right = buffer.getChannelData(1);
-    result = new Float32Array(left.length * 2);
-    for (let i = 0; i < left.length; i++) {
-      result[i * 2] = left[i];
-      result[i * 2 + 1] = right[i];
-    }
-  } else {
-    result = buffer.getChannelData(0);
-  }
+  const frames = Math.min(length, buffer.length);
+  const channels = Array.from({ length: numChannels }, (_, c) => buffer.getChannelData(c));
 
   const bytesPerSample = bitDepth / 8;
   const blockAlign = numChannels * bytesPerSample;
-  const bufferLength = 44 + result.length * bytesPerSample;
-  const arrayBuffer = new ArrayBuffer(bufferLength);
-  const view = new DataView(arrayBuffer);
+  const dataLength = frames * blockAlign;
+  const view = new DataView(new ArrayBuffer(44));
 
   // Write WAV Header
   const writeString = (offset: number, string: string) => {
@@ -37,7 +29,7 @@ const audioBufferToWav = (buffer: AudioBuffer): Blob => {
   };
 
   writeString(0, 'RIFF');
-  view.setUint32(4, 36 + result.length * bytesPerSample, true);
+  view.setUint32(4, 36 + dataLength, true);
   writeString(8, 'WAVE');
   writeString(12, 'fmt ');
   view.setUint32(16, 16, true); // Subchunk1Size
@@ -48,79 +40,56 @@ const audioBufferToWav = (buffer: AudioBuffer): Blob => {
   view.setUint16(32, blockAlign, true);
   view.setUint16(34, bitDepth, true);
   writeString(36, 'data');
-  view.setUint32(40, result.length * bytesPerSample, true);
+  view.setUint32(40, dataLength, true);
 
-  // Write PCM samples
-  const offset = 44;
-  for (let i = 0; i < result.length; i++) {
-    const s = Math.max(-1, Math.min(1, result[i])); // Clamp
-    // Convert float to 16-bit PCM
-    view.setInt16(offset + i * bytesPerSample, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+  // Write interleaved PCM samples
+  const parts: BlobPart[] = [view];
+  for (let start = 0; start < frames; start += WAV_CHUNK_FRAMES) {
+    const end = Math.min(frames, start + WAV_CHUNK_FRAMES);
+    // Typed arrays use the platform byte order, little-endian wherever browsers run
+    const pcm = new Int16Array((end - start) * numChannels);
+    for (let i = start; i < end; i++) {
+      for (let c = 0; c < numChannels; c++) {
+        const s = Math.max(-1, Math.min(1, channels[c][i])); // Clamp
+        // Convert float to 16-bit PCM
+        pcm[(i - start) * numChannels + c] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+      }
+    }
+    parts.push(pcm);
   }
 
-  return new Blob([view], { type: 'audio/wav' });
+  return new Blob(parts, { type: 'audio/wav' });
 };
 
 /**
- * Decodes a video file, extracts a specific time range, and returns a WAV Blob.
- * 
- * @param videoFile The source video file
- * @param startTime Start time in seconds
- * @param endTime End time in seconds
- * @returns Promise resolving to a WAV Blob
+ * Reads the duration of a media file from its container metadata.
+ *
+ * @param file The source video or audio file
+ * @returns Promise resolving to the duration in seconds (0 if unknown)
  */
-export const extractAudioClip = async (
-  videoFile: File,
-  startTime: number,
-  endTime: number
-): Promise<Blob> => {
-  try {
-    const arrayBuffer = await videoFile.arrayBuffer();
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    
-    // Decode the entire audio track (This can be memory intensive for huge files, ok for demo <50MB)
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-    
-    // Calculate sample indices
-    const startSample = Math.floor(startTime * audioBuffer.sampleRate);
-    const endSample = Math.floor(endTime * audioBuffer.sampleRate);
-    const frameCount = endSample - startSample;
-
-    if (frameCount <= 0) {
-      throw new Error("Invalid time range for audio extraction");
-    }
-
-    // Create a new buffer for the segment
-    const segmentBuffer = audioContext.createBuffer(
-      audioBuffer.numberOfChannels,
-      frameCount,
-      audioBuffer.sampleRate
-    );
-
-    // Copy data channel by channel
-    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
-      const channelData = audioBuffer.getChannelData(channel);
-      const segmentData = segmentBuffer.getChannelData(channel);
-      
-      // Safer copy logic
-      for (let i = 0; i < frameCount; i++) {
-        if (startSample + i < channelData.length) {
-          segmentData[i] = channelData[startSample + i];
-        } else {
-          segmentData[i] = 0; // Pad with silence if out of bounds
-        }
-      }
-    }
+export const readMediaDuration = (file: File): Promise<number> => {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const media = document.createElement('video');
+    media.preload = 'metadata';
+    const finish = (duration: number) => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    media.onloadedmetadata = () => finish(media.duration);
+    media.onerror = () => finish(0);
+    media.src = url;
+  });
+};
 
-    // Encode to WAV
-    const wavBlob = audioBufferToWav(segmentBuffer);
-    
-    // Cleanup
-    audioContext.close();
-    
-    return wavBlob;
-  } catch (error) {
-    console.error("Failed to extract audio clip:", error);
-    throw new Error("Audio extraction failed. ensure the file is a valid video/audio file.");
-  }
+/**
+ * Weight of input `channel` in output channel `output` when folding
+ * `inputChannels` down to `outputChannels` (1 or 2, never more than the input).
+ * Channels past the front pair are spread evenly over both sides.
+ */
+export const downmixGain = (channel: number, inputChannels: number, output: number, outputChannels: number): number => {
+  if (outputChannels === 1) return 1 / inputChannels;
+  if (inputChannels <= outputChannels) return channel === output ? 1 : 0;
+  if (channel < outputChannels) return channel === output ? 0.5 : 0;
+  return 0.5 / (inputChannels - outputChannels);
 };
@@ -0,0 +1,204 @@
+/**
+ * Small deterministic formant synthesizer: turns text into vowel-like and
+ * noise-like sounds with a plausible rhythm and intonation. It is not real
+ * speech, but it gives takes a realistic length and envelope without any
+ * network service, and the same input always renders the same samples.
+ */
+import { VoiceEmotion } from '../types';
+
+export const SYNTH_SAMPLE_RATE = 22050;
+
+// Voice timbre: fundamental frequency and vocal tract size
+export interface FormantVoice {
+  pitch: number; // Hz
+  formantScale: number; // 1 = average adult
+  breathiness: number; // 0 - 1
+}
+
+export interface SynthOptions {
+  speed?: number;
+  pitch?: number; // semitones
+  volume?: number;
+  emotion?: VoiceEmotion;
+}
+
+interface Prosody {
+  pitch: number; // multiplier
+  range: number; // intonation width multiplier
+  rate: number; // speaking rate multiplier
+  gain: number;
+}
+
+const EMOTION_PROSODY: Record<VoiceEmotion, Prosody> = {
+  neutral: { pitch: 1, range: 1, rate: 1, gain: 1 },
+  happy: { pitch: 1.12, range: 1.5, rate: 1.05, gain: 1 },
+  sad: { pitch: 0.9, range: 0.6, rate: 0.85, gain: 0.8 },
+  angry: { pitch: 1.05, range: 1.3, rate: 1.1, gain: 1.3 },
+  fearful: { pitch: 1.15, range: 1.4, rate: 1.15, gain: 0.9 },
+  disgusted: { pitch: 0.95, range: 0.8, rate: 0.9, gain: 1 },
+  surprised: { pitch: 1.2, range: 1.8, rate: 1, gain: 1 },
+};
+
+// First three formants (Hz) of the vowels
+const VOWELS: [number, number, number][] = [
+  [730, 1090, 2440], // a
+  [530, 1840, 2480], // e
+  [270, 2290, 3010], // i
+  [570, 840, 2410], // o
+  [300, 870, 2240], // u
+];
+const VOWEL_INDEX: Record<string, number> = { a: 0, e: 1, i: 2, o: 3, u: 4, y: 2 };
+const MURMUR: [number, number, number] = [300, 1000, 2300];
+const VOICED_CONSONANTS = 'bdgjlmnrvwz';
+// Centre frequency of the noise for unvoiced consonants
+const FRICATIVE_HZ: Record<string, number> = { s: 5000, z: 5000, f: 3500, h: 1500, x: 4000, c: 4500 };
+
+type Phone =
+  | { kind: 'vowel'; formants: [number, number, number]; duration: number }
+  | { kind: 'voiced'; duration: number }
+  | { kind: 'noise'; centre: number; duration: number }
+  | { kind: 'pause'; duration: number };
+
+/**
+ * FNV-1a hash, used to seed voices and per-text variation.
+ */
+export const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * A distinct but repeatable voice for any seed.
+ */
+export const voiceFromSeed = (seed: number): FormantVoice => {
+  const random = createRandom(seed);
+  const low = random() < 0.5;
+  return {
+    pitch: low ? 95 + random() * 45 : 170 + random() * 60,
+    formantScale: low ? 0.9 + random() * 0.08 : 1.05 + random() * 0.1,
+    breathiness: 0.05 + random() * 0.2,
+  };
+};
+
+const toPhones = (text: string): Phone[] => {
+  const phones: Phone[] = [];
+  for (const char of text.toLowerCase()) {
+    if (char in VOWEL_INDEX) {
+      phones.push({ kind: 'vowel', formants: VOWELS[VOWEL_INDEX[char]], duration: 0.1 });
+    } else if (VOICED_CONSONANTS.includes(char)) {
+      phones.push({ kind: 'voiced', duration: 0.06 });
+    } else if (/[a-z]/.test(char)) {
+      phones.push({ kind: 'noise', centre: FRICATIVE_HZ[char] ?? 2500, duration: 0.07 });
+    } else if (/[.!?。！？]/.test(char)) {
+      phones.push({ kind: 'pause', duration: 0.35 });
+    } else if (/[,;:、，]/.test(char)) {
+      phones.push({ kind: 'pause', duration: 0.2 });
+    } else if (/\s/.test(char)) {
+      phones.push({ kind: 'pause', duration: 0.05 });
+    } else if (/[\p{L}\p{N}]/u.test(char)) {
+      // Other scripts: one syllable per character, vowel picked by code point
+      phones.push({ kind: 'voiced', duration: 0.04 });
+      phones.push({ kind: 'vowel', formants: VOWELS[char.codePointAt(0)! % VOWELS.length], duration: 0.12 });
+    }
+  }
+  return phones;
+};
+
+// Two-pole resonator (band-pass) with state kept across phones
+class Resonator {
+  private y1 = 0;
+  private y2 = 0;
+  private a = 0;
+  private b1 = 0;
+  private b2 = 0;
+
+  tune(frequency: number, bandwidth: number) {
+    const r = Math.exp((-Math.PI * bandwidth) / SYNTH_SAMPLE_RATE);
+    this.b1 = -2 * r * Math.cos((2 * Math.PI * frequency) / SYNTH_SAMPLE_RATE);
+    this.b2 = r * r;
+    this.a = 1 - r;
+  }
+
+  process(x: number) {
+    const y = this.a * x - this.b1 * this.y1 - this.b2 * this.y2;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+/**
+ * Renders `text` as mono samples at SYNTH_SAMPLE_RATE.
+ */
+export const synthesizeFormants = (
+  text: string,
+  voice: FormantVoice,
+  options: SynthOptions = {}
+): Float32Array => {
+  const prosody = EMOTION_PROSODY[options.emotion ?? 'neutral'];
+  const rate = (options.speed ?? 1) * prosody.rate;
+  const basePitch = voice.pitch * prosody.pitch * Math.pow(2, (options.pitch ?? 0) / 12);
+  const random = createRandom(hashString(text) ^ Math.round(voice.pitch * 1000));
+
+  const phones = toPhones(text);
+  if (phones.length === 0) phones.push({ kind: 'pause', duration: 0.2 });
+  const lengths = phones.map(p => Math.max(1, Math.round((p.duration / rate) * SYNTH_SAMPLE_RATE)));
+  const output = new Float32Array(lengths.reduce((sum, n) => sum + n, 0));
+
+  const resonators = [new Resonator(), new Resonator(), new Resonator()];
+  const formantGains = [1, 0.5, 0.25];
+  const fade = Math.round(0.008 * SYNTH_SAMPLE_RATE);
+  let phase = 0;
+  let offset = 0;
+  // Position within the current sentence, for falling intonation
+  let sentenceStart = 0;
+
+  phones.forEach((phone, index) => {
+    const length = lengths[index];
+    if (phone.kind === 'pause') {
+      if (phone.duration >= 0.35) sentenceStart = offset + length;
+      offset += length;
+      return;
+    }
+
+    const formants = phone.kind === 'vowel' ? phone.formants : phone.kind === 'voiced' ? MURMUR : [phone.centre, phone.centre * 1.3, phone.centre * 1.6];
+    resonators.forEach((r, i) => r.tune(formants[i] * voice.formantScale, phone.kind === 'noise' ? 400 : 80 + 40 * i));
+    const syllableJitter = 1 + (random() - 0.5) * 0.12 * prosody.range;
+    const amplitude = phone.kind === 'vowel' ? 1 : phone.kind === 'voiced' ? 0.5 : 0.3;
+
+    for (let i = 0; i < length; i++) {
+      const sentenceProgress = Math.min(1, (offset + i - sentenceStart) / (2 * SYNTH_SAMPLE_RATE));
+      const f0 = basePitch * syllableJitter * (1 - 0.15 * prosody.range * sentenceProgress);
+      phase = (phase + f0 / SYNTH_SAMPLE_RATE) % 1;
+
+      const noise = random() * 2 - 1;
+      const source = phone.kind === 'noise'
+        ? noise
+        : (2 * phase - 1) * (1 - voice.breathiness) + noise * voice.breathiness;
+
+      let sample = 0;
+      resonators.forEach((r, k) => (sample += r.process(source) * formantGains[k]));
+      const envelope = Math.min(1, i / fade, (length - i) / fade);
+      output[offset + i] = sample * amplitude * envelope;
+    }
+    offset += length;
+  });
+
+  let peak = 0;
+  for (let i = 0; i < output.length; i++) peak = Math.max(peak, Math.abs(output[i]));
+  const gain = peak > 0 ? Math.min(0.99, 0.5 * prosody.gain * (options.volume ?? 1)) / peak : 0;
+  for (let i = 0; i < output.length; i++) output[i] *= gain;
+  return output;
+};
@@ -0,0 +1,265 @@
+/**
+ * Minimal MP4/MOV demuxing for the first audio track: enough to feed its
+ * samples to a WebCodecs AudioDecoder without reading the whole file.
+ * Fragmented files (moof) and codecs other than AAC/MP3 are not handled.
+ */
+
+export interface Mp4AudioTrack {
+  codec: string; // WebCodecs codec string, e.g. 'mp4a.40.2'
+  description?: Uint8Array; // AudioSpecificConfig for AAC
+  sampleRate: number;
+  numberOfChannels: number;
+  duration: number; // seconds
+  // One entry per encoded sample (frame)
+  offsets: Float64Array; // byte offset in the file
+  sizes: Uint32Array;
+  times: Float64Array; // seconds, with the edit list's leading offset removed
+}
+
+// Reads bytes [start, end) of the file
+export type ByteReader = (start: number, end: number) => Promise<Uint8Array>;
+
+interface Box {
+  type: string;
+  start: number; // offset of the payload, after the header
+  end: number;
+}
+
+const fourCC = (bytes: Uint8Array, at: number) => String.fromCharCode(bytes[at], bytes[at + 1], bytes[at + 2], bytes[at + 3]);
+
+// Box types an MP4/MOV file may start with; anything else is another container
+const LEADING_BOX_TYPES = ['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pnot'];
+
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+/**
+ * Box headers at the top level, read without loading the payloads.
+ */
+const readTopLevelBoxes = async (read: ByteReader, fileSize: number): Promise<Box[]> => {
+  const boxes: Box[] = [];
+  let offset = 0;
+  while (offset + 8 <= fileSize) {
+    const header = await read(offset, Math.min(fileSize, offset + 16));
+    const dv = view(header);
+    let size = dv.getUint32(0);
+    let headerSize = 8;
+    if (size === 1) {
+      if (header.length < 16) break;
+      size = dv.getUint32(8) * 2 ** 32 + dv.getUint32(12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = fileSize - offset;
+    }
+    if (size < headerSize) break;
+    const type = fourCC(header, 4);
+    if (offset === 0 && !LEADING_BOX_TYPES.includes(type)) return [];
+    boxes.push({ type, start: offset + headerSize, end: Math.min(fileSize, offset + size) });
+    offset += size;
+  }
+  return boxes;
+};
+
+/**
+ * Child boxes of a box already in memory. Offsets are relative to `bytes`.
+ */
+const childBoxes = (bytes: Uint8Array, start: number, end: number): Box[] => {
+  const dv = view(bytes);
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = dv.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = dv.getUint32(offset + 8) * 2 ** 32 + dv.getUint32(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    boxes.push({ type: fourCC(bytes, offset + 4), start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+const findChild = (bytes: Uint8Array, parent: Box, ...path: string[]): Box | undefined => {
+  let box: Box | undefined = parent;
+  for (const type of path) {
+    box = box && childBoxes(bytes, box.start, box.end).find(b => b.type === type);
+  }
+  return box;
+};
+
+// MPEG-4 descriptor length: up to four bytes, 7 bits each
+const readDescriptorLength = (bytes: Uint8Array, at: number): { length: number; next: number } => {
+  let length = 0;
+  let next = at;
+  for (let i = 0; i < 4; i++) {
+    const byte = bytes[next++];
+    length = (length << 7) | (byte & 0x7f);
+    if (!(byte & 0x80)) break;
+  }
+  return { length, next };
+};
+
+/**
+ * Codec string and AudioSpecificConfig from an esds box.
+ */
+const parseEsds = (bytes: Uint8Array, esds: Box): { codec: string; description?: Uint8Array } | null => {
+  let at = esds.start + 4; // version + flags
+  if (bytes[at] !== 0x03) return null;
+  at = readDescriptorLength(bytes, at + 1).next;
+  const flags = bytes[at + 2];
+  at += 3;
+  if (flags & 0x80) at += 2; // dependsOn_ES_ID
+  if (flags & 0x40) at += 1 + bytes[at]; // URL
+  if (flags & 0x20) at += 2; // OCR_ES_ID
+
+  if (bytes[at] !== 0x04) return null;
+  at = readDescriptorLength(bytes, at + 1).next;
+  const objectType = bytes[at];
+  at += 13;
+  if (objectType === 0x69 || objectType === 0x6b) return { codec: 'mp3' };
+  if (objectType !== 0x40) return null;
+
+  if (bytes[at] !== 0x05) return { codec: 'mp4a.40.2' };
+  const { length, next } = readDescriptorLength(bytes, at + 1);
+  const config = bytes.slice(next, next + length);
+  // Escape value 31 means an extended object type; plain AAC-LC is the safe guess
+  const objectTypeIndication = config[0] >> 3;
+  return { codec: `mp4a.40.${objectTypeIndication === 31 ? 2 : objectTypeIndication}`, description: config };
+};
+
+/**
+ * Codec and format from the first sample entry of an stsd box.
+ */
+const parseSampleEntry = (bytes: Uint8Array, stsd: Box, timescale: number) => {
+  const entry = childBoxes(bytes, stsd.start + 8, stsd.end)[0];
+  if (!entry || entry.type !== 'mp4a') return null;
+  const dv = view(bytes);
+  const version = dv.getUint16(entry.start + 8);
+  // Version 2 moves the real rate and channel count after the classic fields
+  const numberOfChannels = version === 2 ? dv.getUint32(entry.start + 36) : dv.getUint16(entry.start + 16);
+  // The 16.16 rate field cannot hold rates above 65535; the media timescale usually matches
+  const sampleRate = (version === 2 ? dv.getFloat64(entry.start + 28) : dv.getUint32(entry.start + 24) / 65536) || timescale;
+  // QuickTime sound descriptions v1 and v2 carry extra fields before the child boxes
+  const childrenStart = entry.start + 28 + (version === 1 ? 16 : version === 2 ? 36 : 0);
+  const children = childBoxes(bytes, childrenStart, entry.end);
+  // QuickTime files nest it in a 'wave' box
+  const wave = children.find(b => b.type === 'wave');
+  const esds = children.find(b => b.type === 'esds') ?? (wave && findChild(bytes, wave, 'esds'));
+  const codec = esds ? parseEsds(bytes, esds) : null;
+  return codec && { ...codec, numberOfChannels, sampleRate };
+};
+
+/**
+ * Byte offset, size and time of every sample, from the stbl sample tables.
+ */
+const buildSampleTable = (bytes: Uint8Array, stbl: Box, timescale: number, startOffset: number) => {
+  const dv = view(bytes);
+  const stsz = findChild(bytes, stbl, 'stsz');
+  const stsc = findChild(bytes, stbl, 'stsc');
+  const stts = findChild(bytes, stbl, 'stts');
+  const stco = findChild(bytes, stbl, 'stco');
+  const co64 = findChild(bytes, stbl, 'co64');
+  if (!stsz || !stsc || !stts || !(stco || co64)) return null;
+
+  const uniformSize = dv.getUint32(stsz.start + 4);
+  const count = dv.getUint32(stsz.start + 8);
+  const sizes = new Uint32Array(count);
+  for (let i = 0; i < count; i++) sizes[i] = uniformSize || dv.getUint32(stsz.start + 12 + i * 4);
+
+  const chunkBox = (stco ?? co64)!;
+  const chunkCount = dv.getUint32(chunkBox.start + 4);
+  const chunkOffset = (i: number) => stco
+    ? dv.getUint32(chunkBox.start + 8 + i * 4)
+    : dv.getUint32(chunkBox.start + 8 + i * 8) * 2 ** 32 + dv.getUint32(chunkBox.start + 12 + i * 8);
+
+  const offsets = new Float64Array(count);
+  const stscCount = dv.getUint32(stsc.start + 4);
+  let sample = 0;
+  for (let e = 0; e < stscCount && sample < count; e++) {
+    const firstChunk = dv.getUint32(stsc.start + 8 + e * 12) - 1;
+    const perChunk = dv.getUint32(stsc.start + 12 + e * 12);
+    const nextFirst = e + 1 < stscCount ? dv.getUint32(stsc.start + 8 + (e + 1) * 12) - 1 : chunkCount;
+    for (let chunk = firstChunk; chunk < nextFirst && sample < count; chunk++) {
+      let offset = chunkOffset(chunk);
+      for (let s = 0; s < perChunk && sample < count; s++, sample++) {
+        offsets[sample] = offset;
+        offset += sizes[sample];
+      }
+    }
+  }
+  const located = sample;
+
+  const times = new Float64Array(count);
+  const sttsCount = dv.getUint32(stts.start + 4);
+  let time = -startOffset;
+  sample = 0;
+  for (let e = 0; e < sttsCount && sample < count; e++) {
+    const runLength = dv.getUint32(stts.start + 8 + e * 8);
+    const delta = dv.getUint32(stts.start + 12 + e * 8);
+    for (let s = 0; s < runLength && sample < count; s++, sample++) {
+      times[sample] = time / timescale;
+      time += delta;
+    }
+  }
+  const usable = Math.min(located, sample);
+  return { offsets: offsets.subarray(0, usable), sizes: sizes.subarray(0, usable), times: times.subarray(0, usable) };
+};
+
+/**
+ * Locates the first audio track of an MP4/MOV file and its sample table.
+ * Returns null when the file is not a plain (non-fragmented) MP4 with an AAC
+ * or MP3 audio track.
+ */
+export const readMp4AudioTrack = async (read: ByteReader, fileSize: number): Promise<Mp4AudioTrack | null> => {
+  const top = await readTopLevelBoxes(read, fileSize);
+  const moovBox = top.find(b => b.type === 'moov');
+  if (!moovBox) return null;
+
+  const bytes = await read(moovBox.start, moovBox.end);
+  const dv = view(bytes);
+  const moov: Box = { type: 'moov', start: 0, end: bytes.length };
+  if (findChild(bytes, moov, 'mvex')) return null;
+
+  for (const trak of childBoxes(bytes, moov.start, moov.end).filter(b => b.type === 'trak')) {
+    const mdia = findChild(bytes, trak, 'mdia');
+    const hdlr = mdia && findChild(bytes, mdia, 'hdlr');
+    if (!mdia || !hdlr || fourCC(bytes, hdlr.start + 8) !== 'soun') continue;
+
+    const mdhd = findChild(bytes, mdia, 'mdhd');
+    const stbl = findChild(bytes, mdia, 'minf', 'stbl');
+    const stsd = stbl && findChild(bytes, stbl, 'stsd');
+    if (!mdhd || !stbl || !stsd) return null;
+
+    const v1 = bytes[mdhd.start] === 1;
+    const timescale = dv.getUint32(mdhd.start + (v1 ? 20 : 12));
+    const mediaDuration = v1
+      ? dv.getUint32(mdhd.start + 24) * 2 ** 32 + dv.getUint32(mdhd.start + 28)
+      : dv.getUint32(mdhd.start + 16);
+
+    const format = parseSampleEntry(bytes, stsd, timescale);
+    if (!format || !timescale) return null;
+
+    // Encoder priming is usually skipped with an edit list; honour its first media time
+    let startOffset = 0;
+    const elst = findChild(bytes, trak, 'edts', 'elst');
+    if (elst && dv.getUint32(elst.start + 4) > 0) {
+      const elstV1 = bytes[elst.start] === 1;
+      const mediaTime = elstV1
+        ? dv.getInt32(elst.start + 16) * 2 ** 32 + dv.getUint32(elst.start + 20)
+        : dv.getInt32(elst.start + 12);
+      if (mediaTime > 0) startOffset = mediaTime;
+    }
+
+    const table = buildSampleTable(bytes, stbl, timescale, startOffset);
+    if (!table || table.sizes.length === 0) return null;
+    return {
+      ...format,
+      duration: Math.max(0, mediaDuration - startOffset) / timescale,
+      ...table,
+    };
+  }
+  return null;
+};
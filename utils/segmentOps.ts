@@ -0,0 +1,194 @@
+import { DubTrack, Segment, VideoAnalysisResult } from '../types';
+import { MIN_SEGMENT_DURATION, roundTime } from './segmentTiming';
+
+/**
+ * Structural timeline edits: split, merge, add and delete segments.
+ * Each operation returns the new segment list plus the dubbing tracks with
+ * their per-segment texts carried along, or null when the edit is not possible.
+ */
+
+export interface SegmentEdit {
+  segments: Segment[];
+  tracks?: DubTrack[];
+}
+
+// Split at a timeline position, or at a character offset in one track's script
+export type SplitPoint =
+  | { time: number }
+  | { offset: number; text: string; language?: string };
+
+let lastIdStamp = 0;
+let idSequence = 0;
+
+/**
+ * New segment ID that is unique within the project. IDs are built from a clock
+ * that only moves forward (creation time plus a counter), so a deleted
+ * segment's ID does not come back and its takes and history entries cannot
+ * attach to a new segment.
+ */
+export const createSegmentId = (segments: Segment[]): string => {
+  const taken = new Set(segments.map(s => s.id));
+  let id: string;
+  do {
+    const stamp = Math.max(Date.now(), lastIdStamp);
+    idSequence = stamp === lastIdStamp ? idSequence + 1 : 0;
+    lastIdStamp = stamp;
+    id = `seg_${stamp.toString(36)}${idSequence > 0 ? `_${idSequence}` : ''}`;
+  } while (taken.has(id));
+  return id;
+};
+
+/**
+ * Offset of the word break closest to a fraction of the text, so proportional
+ * splits don't cut through a word.
+ */
+export const nearestWordBreak = (text: string, fraction: number): number => {
+  const target = Math.round(text.length * Math.min(Math.max(fraction, 0), 1));
+  let best = target;
+  let bestDistance = Infinity;
+  for (let i = 0; i <= text.length; i++) {
+    const isBreak = i === 0 || i === text.length || /\s/.test(text[i]);
+    if (isBreak && Math.abs(i - target) < bestDistance) {
+      best = i;
+      bestDistance = Math.abs(i - target);
+    }
+  }
+  return best;
+};
+
+const splitTextAt = (text: string, offset: number): [string, string] => [
+  text.slice(0, offset).trim(),
+  text.slice(offset).trim(),
+];
+
+const joinText = (a: string, b: string) => [a.trim(), b.trim()].filter(Boolean).join(' ');
+
+const mapTracks = (
+  tracks: DubTrack[] | undefined,
+  update: (texts: Record<string, string>, language: string) => Record<string, string>
+): DubTrack[] | undefined =>
+  tracks?.map(track => ({ ...track, texts: update({ ...track.texts }, track.language) }));
+
+const byStart = (a: Segment, b: Segment) => a.start_time - b.start_time;
+
+/**
+ * Splits a segment in two. The first half keeps the segment's ID.
+ * A time split divides every script at the nearest word break; a text split
+ * cuts the edited script exactly at the cursor and places the time boundary
+ * proportionally.
+ */
+export const splitSegment = (
+  analysis: VideoAnalysisResult,
+  segmentId: string,
+  point: SplitPoint
+): SegmentEdit | null => {
+  const segment = analysis.segments.find(s => s.id === segmentId);
+  if (!segment) return null;
+  const duration = segment.end_time - segment.start_time;
+
+  const fraction = 'time' in point
+    ? (point.time - segment.start_time) / duration
+    : point.offset / Math.max(1, point.text.length);
+  const splitTime = roundTime(segment.start_time + duration * fraction);
+  if (splitTime - segment.start_time < MIN_SEGMENT_DURATION || segment.end_time - splitTime < MIN_SEGMENT_DURATION) {
+    return null;
+  }
+
+  const splitScript = (text: string, language?: string): [string, string] => {
+    if ('offset' in point && point.language === language) {
+      return splitTextAt(point.text, point.offset);
+    }
+    return splitTextAt(text, nearestWordBreak(text, fraction));
+  };
+
+  const newId = createSegmentId(analysis.segments);
+  const [firstText, secondText] = splitScript(segment.text);
+  const first: Segment = { ...segment, end_time: splitTime, text: firstText };
+  const second: Segment = { ...segment, id: newId, start_time: splitTime, text: secondText };
+
+  const segments = analysis.segments.flatMap(s => (s.id === segmentId ? [first, second] : [s]));
+  const tracks = mapTracks(analysis.tracks, (texts, language) => {
+    const translated = texts[segmentId];
+    if (translated === undefined) return texts;
+    const [a, b] = splitScript(translated, language);
+    texts[segmentId] = a;
+    texts[newId] = b;
+    return texts;
+  });
+  return { segments, tracks };
+};
+
+/**
+ * The next segment of the same speaker, which a segment can be merged with.
+ */
+export const getNextInLane = (segments: Segment[], segmentId: string): Segment | undefined => {
+  const segment = segments.find(s => s.id === segmentId);
+  if (!segment) return undefined;
+  return segments
+    .filter(s => s.speaker_id === segment.speaker_id && s.id !== segment.id && s.start_time >= segment.start_time)
+    .sort(byStart)[0];
+};
+
+/**
+ * Merges a segment with the next segment of the same speaker. The merged
+ * segment keeps the first segment's ID and spans both.
+ */
+export const mergeWithNext = (analysis: VideoAnalysisResult, segmentId: string): SegmentEdit | null => {
+  const first = analysis.segments.find(s => s.id === segmentId);
+  const second = getNextInLane(analysis.segments, segmentId);
+  if (!first || !second) return null;
+
+  const merged: Segment = {
+    ...first,
+    start_time: Math.min(first.start_time, second.start_time),
+    end_time: Math.max(first.end_time, second.end_time),
+    text: joinText(first.text, second.text),
+  };
+  const segments = analysis.segments
+    .filter(s => s.id !== second.id)
+    .map(s => (s.id === first.id ? merged : s));
+
+  const tracks = mapTracks(analysis.tracks, texts => {
+    if (texts[first.id] === undefined && texts[second.id] === undefined) return texts;
+    // An untranslated half falls back to its original text, as on the timeline
+    texts[first.id] = joinText(texts[first.id] ?? first.text, texts[second.id] ?? second.text);
+    delete texts[second.id];
+    return texts;
+  });
+  return { segments, tracks };
+};
+
+/**
+ * Adds an empty segment to a speaker's lane.
+ */
+export const addSegment = (
+  analysis: VideoAnalysisResult,
+  speakerId: string,
+  start: number,
+  end: number
+): { edit: SegmentEdit; segmentId: string } | null => {
+  if (end - start < MIN_SEGMENT_DURATION) return null;
+  const segment: Segment = {
+    id: createSegmentId(analysis.segments),
+    speaker_id: speakerId,
+    start_time: roundTime(start),
+    end_time: roundTime(end),
+    text: '',
+  };
+  // Inserted before the first later segment; the rest keep their order so the edit is a pure insertion
+  const index = analysis.segments.findIndex(s => s.start_time > segment.start_time);
+  const segments = [...analysis.segments];
+  segments.splice(index === -1 ? segments.length : index, 0, segment);
+  return { edit: { segments, tracks: analysis.tracks }, segmentId: segment.id };
+};
+
+/**
+ * Removes a segment along with its translations.
+ */
+export const deleteSegment = (analysis: VideoAnalysisResult, segmentId: string): SegmentEdit => ({
+  segments: analysis.segments.filter(s => s.id !== segmentId),
+  tracks: mapTracks(analysis.tracks, texts => {
+    delete texts[segmentId];
+    return texts;
+  }),
+});
@@ -0,0 +1,109 @@
+import { Segment } from '../types';
+
+/**
+ * Helpers for retiming segments on the timeline: snapping to nearby edges and
+ * keeping segments from overlapping within a speaker lane.
+ */
+
+export const MIN_SEGMENT_DURATION = 0.2;
+
+// Timeline edits are kept at centisecond precision
+export const roundTime = (time: number) => Math.round(time * 100) / 100;
+
+const overlaps = (start: number, end: number, segment: Segment) =>
+  start < segment.end_time && end > segment.start_time;
+
+/**
+ * Times a dragged edge may snap to: whole-second ruler ticks and the edges of every other segment.
+ */
+export const getSnapTargets = (segments: Segment[], excludeId: string, duration: number): number[] => {
+  const targets: number[] = [];
+  for (let t = 0; t <= Math.ceil(duration); t++) targets.push(t);
+  segments.forEach(s => {
+    if (s.id !== excludeId) targets.push(s.start_time, s.end_time);
+  });
+  return targets;
+};
+
+/**
+ * Closest target within the threshold, or null when nothing is close enough.
+ */
+export const findSnap = (time: number, targets: number[], threshold: number): number | null => {
+  let best: number | null = null;
+  let bestDistance = threshold;
+  for (const target of targets) {
+    const distance = Math.abs(target - time);
+    if (distance <= bestDistance) {
+      best = target;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+/**
+ * Snaps a span by whichever of its edges is closer to a target; returns the new start.
+ */
+export const snapSpan = (start: number, length: number, targets: number[], threshold: number): number => {
+  const startSnap = findSnap(start, targets, threshold);
+  const endSnap = findSnap(start + length, targets, threshold);
+  if (startSnap === null && endSnap === null) return start;
+  if (endSnap === null) return startSnap!;
+  if (startSnap === null) return endSnap - length;
+  return Math.abs(startSnap - start) <= Math.abs(endSnap - (start + length)) ? startSnap : endSnap - length;
+};
+
+/**
+ * Places a span of fixed length in a lane without overlapping the lane's segments:
+ * the requested start if it is free, otherwise the nearest free slot between
+ * 0 and `maxEnd`. Returns null when no slot fits.
+ *
+ * @param laneSegments Segments already in the lane (excluding the one being placed)
+ */
+export const placeInLane = (
+  laneSegments: Segment[],
+  start: number,
+  length: number,
+  maxEnd: number
+): number | null => {
+  const fits = (s: number) =>
+    s >= 0 && s + length <= maxEnd + 1e-6 && !laneSegments.some(seg => overlaps(s, s + length, seg));
+
+  if (fits(start)) return start;
+  // The timeline's ends are slots too, so a drag past either one clamps to it
+  const candidates = [0, maxEnd - length, ...laneSegments.flatMap(seg => [seg.end_time, seg.start_time - length])]
+    .filter(fits);
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, c) => (Math.abs(c - start) < Math.abs(best - start) ? c : best));
+};
+
+/**
+ * Limits an edge drag so the segment keeps a minimum length and does not grow
+ * into its lane neighbours.
+ *
+ * @param segment The segment as it was before the drag
+ */
+export const clampResize = (
+  laneSegments: Segment[],
+  segment: Segment,
+  edge: 'start' | 'end',
+  time: number,
+  maxEnd: number
+): number => {
+  if (edge === 'start') {
+    const floor = Math.max(
+      0,
+      ...laneSegments
+        .filter(s => s.start_time < segment.start_time)
+        .map(s => Math.min(s.end_time, segment.start_time))
+    );
+    return Math.min(Math.max(time, floor), segment.end_time - MIN_SEGMENT_DURATION);
+  }
+  const ceiling = Math.min(
+    maxEnd,
+    ...laneSegments
+      .filter(s => s.end_time > segment.end_time)
+      .map(s => Math.max(s.start_time, segment.end_time))
+  );
+  return Math.max(Math.min(time, ceiling), segment.start_time + MIN_SEGMENT_DURATION);
+};
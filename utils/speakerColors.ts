@@ -0,0 +1,25 @@
+/**
+ * Per-speaker color palette shared by the timeline and subtitle styling.
+ * SPEAKER_HEX_COLORS mirrors the Tailwind -600 shade of each class set.
+ */
+export const SPEAKER_COLORS = [
+  'bg-blue-600 border-blue-400 text-blue-50',
+  'bg-emerald-600 border-emerald-400 text-emerald-50',
+  'bg-purple-600 border-purple-400 text-purple-50',
+  'bg-orange-600 border-orange-400 text-orange-50',
+  'bg-pink-600 border-pink-400 text-pink-50',
+];
+
+export const SPEAKER_HEX_COLORS = ['#2563eb', '#059669', '#9333ea', '#ea580c', '#db2777'];
+
+export const FALLBACK_SPEAKER_COLOR = 'bg-gray-600 border-gray-400 text-gray-50';
+export const FALLBACK_SPEAKER_HEX = '#4b5563';
+
+/**
+ * Palette index for a speaker, based on its position in the speakers list.
+ * Returns -1 for unknown speakers.
+ */
+export const getSpeakerColorIndex = (speakers: { id: string }[], speakerId: string): number => {
+  const index = speakers.findIndex(s => s.id === speakerId);
+  return index < 0 ? -1 : index % SPEAKER_COLORS.length;
+};
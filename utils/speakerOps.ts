@@ -0,0 +1,74 @@
+import { Speaker, VideoAnalysisResult } from '../types';
+
+/**
+ * Speaker-level edits used to correct diarization: add, rename, merge and
+ * reassign segments between speakers.
+ */
+
+/**
+ * Next free `spk_N` ID. IDs of merged-away speakers are not reused while they
+ * are still referenced by the history or the voice map.
+ */
+export const createSpeakerId = (speakers: Speaker[], reserved: string[] = []): string => {
+  const taken = new Set([...speakers.map(s => s.id), ...reserved]);
+  let n = speakers.length + 1;
+  while (taken.has(`spk_${n}`)) n++;
+  return `spk_${n}`;
+};
+
+/**
+ * First "Speaker N" name no existing speaker uses (compared case-insensitively).
+ */
+export const createSpeakerName = (speakers: Speaker[]): string => {
+  const taken = new Set(speakers.map(s => s.name.trim().toLowerCase()));
+  let n = speakers.length + 1;
+  while (taken.has(`speaker ${n}`)) n++;
+  return `Speaker ${n}`;
+};
+
+export const addSpeaker = (
+  analysis: VideoAnalysisResult,
+  speaker: Omit<Speaker, 'id'>,
+  reservedIds: string[] = []
+): { analysis: VideoAnalysisResult; speakerId: string } => {
+  const speakerId = createSpeakerId(analysis.speakers, reservedIds);
+  return {
+    analysis: { ...analysis, speakers: [...analysis.speakers, { id: speakerId, ...speaker }] },
+    speakerId,
+  };
+};
+
+export const updateSpeaker = (
+  analysis: VideoAnalysisResult,
+  speakerId: string,
+  changes: Partial<Omit<Speaker, 'id'>>
+): VideoAnalysisResult => ({
+  ...analysis,
+  speakers: analysis.speakers.map(s => (s.id === speakerId ? { ...s, ...changes } : s)),
+});
+
+export const reassignSegments = (
+  analysis: VideoAnalysisResult,
+  segmentIds: string[],
+  speakerId: string
+): VideoAnalysisResult => {
+  const ids = new Set(segmentIds);
+  return {
+    ...analysis,
+    segments: analysis.segments.map(s => (ids.has(s.id) ? { ...s, speaker_id: speakerId } : s)),
+  };
+};
+
+/**
+ * Moves every segment of `sourceId` to `targetId` and removes the source speaker.
+ */
+export const mergeSpeakers = (
+  analysis: VideoAnalysisResult,
+  sourceId: string,
+  targetId: string
+): VideoAnalysisResult => {
+  if (sourceId === targetId) return analysis;
+  const segmentIds = analysis.segments.filter(s => s.speaker_id === sourceId).map(s => s.id);
+  const reassigned = reassignSegments(analysis, segmentIds, targetId);
+  return { ...reassigned, speakers: reassigned.speakers.filter(s => s.id !== sourceId) };
+};
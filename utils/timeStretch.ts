@@ -0,0 +1,103 @@
+/**
+ * Pitch-preserving time stretch using WSOLA (waveform-similarity overlap-add).
+ * Good enough for nudging speech by up to ~25% without the chipmunk effect
+ * of simply resampling.
+ */
+
+const FRAME_SIZE = 2048;
+const OUTPUT_HOP = FRAME_SIZE / 2;
+// How far (in samples) the input frame may shift to line up with the previous one
+const SEEK_RADIUS = 256;
+// Samples compared when scoring a candidate alignment; stride keeps it cheap
+const CORRELATION_LENGTH = 512;
+const CORRELATION_STRIDE = 2;
+
+const hannWindow = (size: number) => {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+  return window;
+};
+
+const correlate = (data: Float32Array, a: number, b: number) => {
+  let sum = 0;
+  for (let i = 0; i < CORRELATION_LENGTH; i += CORRELATION_STRIDE) {
+    sum += (data[a + i] || 0) * (data[b + i] || 0);
+  }
+  return sum;
+};
+
+/**
+ * Stretches audio so its duration is multiplied by `ratio` (2 = twice as long).
+ *
+ * @param buffer Source audio
+ * @param ratio Output duration / input duration
+ * @returns A new AudioBuffer with the same channel count and sample rate
+ */
+export const timeStretch = (buffer: AudioBuffer, ratio: number): AudioBuffer => {
+  if (!Number.isFinite(ratio) || ratio <= 0) {
+    throw new Error(`Invalid time-stretch ratio: ${ratio}`);
+  }
+
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const outputLength = Math.max(1, Math.round(length * ratio));
+  const output = new AudioBuffer({ numberOfChannels, length: outputLength, sampleRate });
+
+  if (Math.abs(ratio - 1) < 0.001 || length < FRAME_SIZE * 2) {
+    // Too short to stretch meaningfully; copy (and pad/truncate) as-is
+    for (let c = 0; c < numberOfChannels; c++) {
+      output.copyToChannel(buffer.getChannelData(c).subarray(0, outputLength), c);
+    }
+    return output;
+  }
+
+  const window = hannWindow(FRAME_SIZE);
+  const inputHop = OUTPUT_HOP / ratio;
+  const inputs = Array.from({ length: numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const outputs = Array.from({ length: numberOfChannels }, () => new Float32Array(outputLength + FRAME_SIZE));
+  const norm = new Float32Array(outputLength + FRAME_SIZE);
+  // Alignment is computed on the first channel and applied to all
+  const guide = inputs[0];
+
+  let previousInput = 0;
+  for (let outPos = 0, frame = 0; outPos < outputLength; outPos += OUTPUT_HOP, frame++) {
+    const ideal = Math.round(frame * inputHop);
+    let best = ideal;
+
+    if (frame > 0) {
+      // Natural continuation of the previous frame; pick the candidate most similar to it
+      const target = previousInput + OUTPUT_HOP;
+      let bestScore = -Infinity;
+      const from = Math.max(0, ideal - SEEK_RADIUS);
+      const to = Math.min(length - FRAME_SIZE, ideal + SEEK_RADIUS);
+      for (let candidate = from; candidate <= to; candidate++) {
+        const score = correlate(guide, target, candidate);
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+    }
+    best = Math.max(0, Math.min(best, length - 1));
+    previousInput = best;
+
+    for (let i = 0; i < FRAME_SIZE && outPos + i < outputLength; i++) {
+      const w = window[i];
+      norm[outPos + i] += w;
+      for (let c = 0; c < numberOfChannels; c++) {
+        outputs[c][outPos + i] += (inputs[c][best + i] || 0) * w;
+      }
+    }
+  }
+
+  for (let c = 0; c < numberOfChannels; c++) {
+    const data = outputs[c];
+    for (let i = 0; i < outputLength; i++) {
+      data[i] = norm[i] > 1e-3 ? data[i] / norm[i] : 0;
+    }
+    output.copyToChannel(data.subarray(0, outputLength), c);
+  }
+
+  return output;
+};
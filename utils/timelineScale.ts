@@ -0,0 +1,38 @@
+/**
+ * Zoom limits and ruler tick spacing for the timeline.
+ */
+
+export const DEFAULT_PIXELS_PER_SECOND = 100;
+export const MIN_PIXELS_PER_SECOND = 0.5;
+export const MAX_PIXELS_PER_SECOND = 500;
+
+// Candidate tick intervals in seconds; the smallest one that leaves room for a label wins
+const TICK_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600];
+const MIN_TICK_SPACING_PX = 70;
+
+export const clampZoom = (pixelsPerSecond: number) =>
+  Math.min(MAX_PIXELS_PER_SECOND, Math.max(MIN_PIXELS_PER_SECOND, pixelsPerSecond));
+
+export const getTickStep = (pixelsPerSecond: number): number =>
+  TICK_STEPS.find(step => step * pixelsPerSecond >= MIN_TICK_SPACING_PX) ?? TICK_STEPS[TICK_STEPS.length - 1];
+
+/**
+ * Tick times within [start, end], aligned to multiples of the step.
+ */
+export const getTicks = (start: number, end: number, step: number): number[] => {
+  const ticks: number[] = [];
+  for (let i = Math.max(0, Math.ceil(start / step)); i * step <= end; i++) {
+    // Rounded so labels don't show float noise like 0.30000000000000004
+    ticks.push(Math.round(i * step * 1000) / 1000);
+  }
+  return ticks;
+};
+
+export const formatRulerTime = (seconds: number, step: number): string => {
+  if (step < 1) return `${seconds.toFixed(1)}s`;
+  if (seconds < 60) return `${seconds}s`;
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
@@ -0,0 +1,57 @@
+import { DubTrack, GeneratedTake, Segment, VideoAnalysisResult } from '../types';
+
+/**
+ * Helpers for reading and updating per-language dubbing tracks.
+ * The original language is not stored as a track; it is the segments' own text.
+ */
+
+export const ORIGINAL_TRACK = 'original';
+
+// Normalizes undefined (no active track) to ORIGINAL_TRACK
+export const resolveTrack = (language: string | undefined) => language || ORIGINAL_TRACK;
+
+export const getTrack = (analysis: VideoAnalysisResult, language: string | undefined): DubTrack | undefined =>
+  analysis.tracks?.find(t => t.language === language);
+
+/**
+ * Text to display and speak for a segment on the given track.
+ * Falls back to the original text when the segment has no translation.
+ */
+export const getSegmentScript = (
+  analysis: VideoAnalysisResult,
+  segment: Segment,
+  language: string | undefined
+): string => {
+  if (resolveTrack(language) === ORIGINAL_TRACK) return segment.text;
+  return getTrack(analysis, language)?.texts[segment.id] ?? segment.text;
+};
+
+/**
+ * Returns a copy of the analysis with the track's texts merged in (track is created if missing).
+ */
+export const upsertTrackTexts = (
+  analysis: VideoAnalysisResult,
+  language: string,
+  texts: Record<string, string>,
+  replace = false
+): VideoAnalysisResult => {
+  const existing = getTrack(analysis, language);
+  const track: DubTrack = {
+    language,
+    texts: replace || !existing ? { ...texts } : { ...existing.texts, ...texts },
+  };
+  const tracks = analysis.tracks || [];
+  // Replaced in place so the language tabs keep their order
+  return {
+    ...analysis,
+    tracks: existing ? tracks.map(t => (t === existing ? track : t)) : [...tracks, track],
+  };
+};
+
+/**
+ * Key for a take in the session's take map; takes are stored per track.
+ */
+export const takeKey = (segmentId: string, language: string | undefined) =>
+  `${resolveTrack(language)}:${segmentId}`;
+
+export const takeKeyOf = (take: Pick<GeneratedTake, 'segment_id' | 'language'>) => takeKey(take.segment_id, take.language);
@@ -0,0 +1,65 @@
+import { Segment } from '../types';
+
+/**
+ * Helpers for building the reference clip a speaker's voice is cloned from.
+ */
+
+// Target length of a reference assembled from segments. MiniMax needs at least
+// 10s of speech; longer clips mostly add noise from the source mix.
+export const REFERENCE_TARGET_SECONDS = 30;
+export const MIN_REFERENCE_SECONDS = 10;
+
+// A span of the source audio, usually one segment with optional trims
+export interface ReferenceRange {
+  segmentId: string;
+  start: number;
+  end: number;
+}
+
+// Either spans of the source video or an uploaded clean recording
+export type VoiceReference =
+  | { kind: 'segments'; ranges: ReferenceRange[] }
+  | { kind: 'file'; file: File };
+
+export const getReferenceDuration = (ranges: ReferenceRange[]): number =>
+  ranges.reduce((sum, r) => sum + Math.max(0, r.end - r.start), 0);
+
+/**
+ * Longest segments of the speaker, added until the target length is reached,
+ * returned in timeline order.
+ */
+export const suggestReferenceSegments = (
+  segments: Segment[],
+  speakerId: string,
+  targetSeconds: number = REFERENCE_TARGET_SECONDS
+): string[] => {
+  const byLength = segments
+    .filter(s => s.speaker_id === speakerId)
+    .sort((a, b) => (b.end_time - b.start_time) - (a.end_time - a.start_time));
+
+  const picked: Segment[] = [];
+  let total = 0;
+  for (const segment of byLength) {
+    if (total >= targetSeconds) break;
+    picked.push(segment);
+    total += segment.end_time - segment.start_time;
+  }
+  return picked.sort((a, b) => a.start_time - b.start_time).map(s => s.id);
+};
+
+/**
+ * Cuts the ranges so their combined length does not exceed `targetSeconds`;
+ * the last range that crosses the limit is shortened.
+ */
+export const limitReferenceLength = (ranges: ReferenceRange[], targetSeconds: number): ReferenceRange[] => {
+  const limited: ReferenceRange[] = [];
+  let remaining = targetSeconds;
+  for (const range of ranges) {
+    if (remaining <= 0) break;
+    const length = Math.min(range.end - range.start, remaining);
+    if (length <= 0) continue;
+    limited.push({ ...range, end: range.start + length });
+    remaining -= length;
+  }
+  return limited;
+};
@@ -0,0 +1,52 @@
+import { Segment, Speaker, VoiceSettings } from '../types';
+
+/**
+ * Resolution of per-speaker defaults and per-segment overrides for synthesis.
+ */
+
+const SETTING_KEYS: (keyof VoiceSettings)[] = ['speed', 'volume', 'pitch', 'emotion'];
+
+// Values equal to the provider default. A segment may set them explicitly to
+// override a speaker default; only resolved settings drop them.
+const NEUTRAL: Required<VoiceSettings> = { speed: 1, volume: 1, pitch: 0, emotion: 'neutral' };
+
+/**
+ * Drops unset and default-valued fields; returns undefined when nothing is left.
+ * Use for speaker defaults and resolved settings, not segment overrides.
+ */
+export const normalizeVoiceSettings = (settings?: VoiceSettings): VoiceSettings | undefined => {
+  if (!settings) return undefined;
+  const result: VoiceSettings = {};
+  SETTING_KEYS.forEach(key => {
+    const value = settings[key];
+    if (value !== undefined && value !== NEUTRAL[key]) (result as Record<string, unknown>)[key] = value;
+  });
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+/**
+ * Settings a segment is spoken with: the speaker's defaults overridden field by field.
+ */
+export const resolveVoiceSettings = (speakers: Speaker[], segment: Segment): VoiceSettings => {
+  const speaker = speakers.find(s => s.id === segment.speaker_id);
+  return normalizeVoiceSettings({ ...speaker?.voice_settings, ...segment.voice_settings }) ?? {};
+};
+
+/**
+ * Field-by-field equality; an explicitly neutral field differs from an unset one.
+ */
+export const sameVoiceSettings = (a?: VoiceSettings, b?: VoiceSettings): boolean =>
+  SETTING_KEYS.every(key => a?.[key] === b?.[key]);
+
+/**
+ * Short labels for the set fields, e.g. ['1.2x', '+2st', 'happy'].
+ */
+export const describeVoiceSettings = (settings?: VoiceSettings): string[] => {
+  const s = settings ?? {};
+  const labels: string[] = [];
+  if (s.speed !== undefined) labels.push(`${s.speed}x`);
+  if (s.volume !== undefined) labels.push(`vol ${Math.round(s.volume * 100)}%`);
+  if (s.pitch !== undefined) labels.push(`${s.pitch > 0 ? '+' : ''}${s.pitch}st`);
+  if (s.emotion) labels.push(s.emotion);
+  return labels;
+};
@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MINIMAX_API_KEY': JSON.stringify(env.MINIMAX_API_KEY),
+        'process.env.ELEVENLABS_API_KEY': JSON.stringify(env.ELEVENLABS_API_KEY),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.ANALYSIS_ENDPOINT': JSON.stringify(env.ANALYSIS_ENDPOINT),
+        'process.env.ANALYSIS_API_KEY': JSON.stringify(env.ANALYSIS_API_KEY)
       },
       resolve: {
         alias: {